@@ -0,0 +1,23 @@
+import type { ChatErrorFix, ChatHistoryMessage } from '@proj-airi/stage-ui/components'
+import type { Ref } from 'vue'
+
+import { useConsciousnessStore } from '@proj-airi/stage-ui/stores/modules/consciousness'
+import { useRouter } from 'vue-router'
+
+/**
+ * Opens the settings page that fixes a failed chat request.
+ */
+export function useChatErrorFix(messages: Ref<ChatHistoryMessage[]>) {
+  const router = useRouter()
+  const consciousnessStore = useConsciousnessStore()
+
+  return (messageIndex: number, fix: ChatErrorFix) => {
+    const message = messages.value[messageIndex]
+    const provider = (message?.role === 'error' ? message.error?.provider : undefined) ?? consciousnessStore.activeProvider
+
+    if (fix === 'open-provider-settings')
+      router.push(`/settings/providers/chat/${provider}`)
+    else
+      router.push('/settings/modules/consciousness')
+  }
+}
@@ -345,6 +345,13 @@ declare module 'vue-router/auto-routes' {
       Record<never, never>,
       | never
     >,
+    '/settings/modules/idle': RouteRecordInfo<
+      '/settings/modules/idle',
+      '/settings/modules/idle',
+      Record<never, never>,
+      Record<never, never>,
+      | never
+    >,
     '/settings/modules/memory-long-term': RouteRecordInfo<
       '/settings/modules/memory-long-term',
       '/settings/modules/memory-long-term',
@@ -920,6 +927,12 @@ declare module 'vue-router/auto-routes' {
       views:
         | never
     }
+    'src/pages/settings/modules/idle.vue': {
+      routes:
+        | '/settings/modules/idle'
+      views:
+        | never
+    }
     'src/pages/settings/modules/memory-long-term.vue': {
       routes:
         | '/settings/modules/memory-long-term'
@@ -31,6 +31,11 @@ interface CardMeta {
 }
 
 interface CardAdditional {
+  /**
+   * Lorebook entries injected into the prompt when their keys show up in the conversation.
+   * - character_book
+   */
+  characterBook?: Data['character_book']
   /**
    * Extensions.
    * - extensions
@@ -36,6 +36,7 @@ function createCardData(data: Card): CharacterCardV3['data'] {
     system_prompt: data.systemPrompt ?? '',
     post_history_instructions: data.postHistoryInstructions ?? '',
     mes_example: formatMessageExample(data.messageExample),
+    character_book: data.characterBook,
     tags: data.tags ?? [],
     extensions: createExtensions(data),
   }
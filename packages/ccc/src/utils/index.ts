@@ -1,4 +1,5 @@
 import * as chat from './chat'
+import * as macros from './macros'
 import * as markdown from './markdown'
 
-export { chat as c, chat, markdown, markdown as md }
+export { chat as c, chat, macros, markdown, markdown as md }
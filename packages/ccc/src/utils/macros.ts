@@ -0,0 +1,121 @@
+/**
+ * Custom macro, either a fixed value or a function of the macro arguments.
+ *
+ * Returning `undefined` leaves the macro untouched in the output.
+ */
+export type MacroHandler = string | ((args: string[], context: MacroContext) => string | undefined)
+
+export interface MacroContext {
+  /** Name of the character, for `{{char}}` */
+  char?: string
+  /** Name of the user persona, for `{{user}}` */
+  user?: string
+  /** Locale used to format dates and durations, defaults to the runtime locale */
+  locale?: string
+  /** Current time, defaults to `new Date()` */
+  now?: Date
+  /** Time of the last message, for `{{idle_duration}}` */
+  lastMessageAt?: Date | number
+  /** Source of randomness for `{{random}}`, defaults to `Math.random` */
+  random?: () => number
+  /** Additional macros keyed by lower case name, they take precedence over the built-in ones */
+  macros?: Record<string, MacroHandler>
+}
+
+// `\{{` escapes a macro, `{{// ...}}` is a comment
+const MACRO_PATTERN = /\\?\{\{([\s\S]*?)\}\}/g
+
+const DURATION_UNITS = [
+  ['day', 86_400_000],
+  ['hour', 3_600_000],
+  ['minute', 60_000],
+  ['second', 1000],
+] as const
+
+function formatDuration(milliseconds: number, locale?: string) {
+  const [unit, size] = DURATION_UNITS.find(([, size]) => milliseconds >= size) ?? DURATION_UNITS.at(-1)!
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'long' })
+    .format(Math.floor(milliseconds / size))
+}
+
+const builtinMacros: Record<string, MacroHandler> = {
+  char: (_, context) => context.char,
+  user: (_, context) => context.user,
+  time: (_, context) => (context.now ?? new Date()).toLocaleTimeString(context.locale, { hour: '2-digit', minute: '2-digit' }),
+  date: (_, context) => (context.now ?? new Date()).toLocaleDateString(context.locale, { dateStyle: 'long' }),
+  weekday: (_, context) => (context.now ?? new Date()).toLocaleDateString(context.locale, { weekday: 'long' }),
+  isotime: (_, context) => (context.now ?? new Date()).toTimeString().slice(0, 5),
+  isodate: (_, context) => (context.now ?? new Date()).toISOString().slice(0, 10),
+  idle_duration: (_, context) => {
+    const now = (context.now ?? new Date()).getTime()
+    const lastMessageAt = new Date(context.lastMessageAt ?? now).getTime()
+    return formatDuration(Math.max(0, now - lastMessageAt), context.locale)
+  },
+  random: (args, context) => {
+    if (args.length === 0)
+      return undefined
+
+    return args[Math.floor((context.random ?? Math.random)() * args.length)]
+  },
+  newline: '\n',
+}
+
+/**
+ * Splits a macro body into its name and arguments.
+ *
+ * Both the `{{random::a::b}}` form and the legacy `{{random:a,b}}` form are accepted.
+ */
+function parseMacro(body: string): [name: string, args: string[]] {
+  const separator = body.indexOf('::')
+  if (separator >= 0)
+    return [body.slice(0, separator).trim(), body.slice(separator + 2).split('::')]
+
+  const colon = body.indexOf(':')
+  if (colon >= 0)
+    return [body.slice(0, colon).trim(), body.slice(colon + 1).split(',').map(arg => arg.trim())]
+
+  return [body.trim(), []]
+}
+
+/**
+ * Expands SillyTavern compatible macros in `text`.
+ *
+ * Unknown macros, and macros without a value in `context`, are kept as is.
+ * The output is not expanded again, so substituted values may safely contain braces.
+ *
+ * @example
+ * ```ts
+ * render('{{char}}: Hello, {{user}}!', { char: 'AIRI', user: 'Neko' }) // 'AIRI: Hello, Neko!'
+ * render('{{random::cat::dog}}') // 'cat' or 'dog'
+ * render('\\{{user}}') // '{{user}}'
+ * ```
+ */
+export function render(text: string, context: MacroContext = {}) {
+  return text.replace(MACRO_PATTERN, (match: string, body: string) => {
+    if (match.startsWith('\\'))
+      return match.slice(1)
+    if (body.trimStart().startsWith('//'))
+      return ''
+
+    const [name, args] = parseMacro(body)
+    const key = name.toLowerCase()
+    const handler = context.macros?.[key] ?? builtinMacros[key]
+    if (handler === undefined)
+      return match
+
+    const value = typeof handler === 'string' ? handler : handler(args, context)
+    return value ?? match
+  })
+}
+
+/**
+ * Escapes every macro in `text` so that {@link render} outputs it literally.
+ *
+ * @example
+ * ```ts
+ * render(escape('{{user}}'), { user: 'Neko' }) // '{{user}}'
+ * ```
+ */
+export function escape(text: string) {
+  return text.replace(/\{\{/g, '\\{{')
+}
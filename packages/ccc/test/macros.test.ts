@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+
+import { chat, macros } from '../src/utils'
+import { seraphina } from './fixture/seraphina'
+
+describe('macros', () => {
+  const context: macros.MacroContext = {
+    char: 'Seraphina',
+    user: 'Neko',
+    locale: 'en-US',
+    now: new Date(2025, 0, 2, 15, 4),
+  }
+
+  it('substitutes names in message examples', () => {
+    expect(macros.render(chat.char`Hello, {{user}}.`, context)).toBe('Seraphina: Hello, Neko.')
+    expect(macros.render(chat.user('Hi!'), context)).toBe('Neko: Hi!')
+    expect(macros.render(seraphina.messageExample!.flat().join('\n'), context)).not.toMatch(/\{\{(?:char|user)\}\}/)
+  })
+
+  it('formats time, date and idle duration with the locale', () => {
+    expect(macros.render('{{time}} {{date}} {{weekday}}', context)).toBe('03:04 PM January 2, 2025 Thursday')
+    expect(macros.render('{{isodate}}', context)).toBe('2025-01-02')
+    expect(macros.render('{{idle_duration}}', { ...context, lastMessageAt: new Date(2025, 0, 2, 12, 30) })).toBe('2 hours')
+    expect(macros.render('{{idle_duration}}', { ...context, lastMessageAt: new Date(2025, 0, 2, 15, 3, 30) })).toBe('30 seconds')
+  })
+
+  it('picks random choices in both argument forms', () => {
+    expect(macros.render('{{random::cat::dog}}', { random: () => 0.9 })).toBe('dog')
+    expect(macros.render('{{random:cat, dog}}', { random: () => 0 })).toBe('cat')
+  })
+
+  it('keeps escaped and unknown macros and drops comments', () => {
+    expect(macros.render('\\{{user}} {{unknown}} {{// note}}{{char}}', context)).toBe('{{user}} {{unknown}} Seraphina')
+    expect(macros.render(macros.escape('{{user}} says {{random::a::b}}'), context)).toBe('{{user}} says {{random::a::b}}')
+    expect(macros.render('{{user}}', {})).toBe('{{user}}')
+  })
+
+  it('does not expand macros inside substituted values', () => {
+    expect(macros.render('{{user}}', { user: '{{char}}', char: 'Seraphina' })).toBe('{{char}}')
+  })
+
+  it('prefers custom macros over built-in ones', () => {
+    expect(macros.render('{{char}} {{mood::happy}}', {
+      ...context,
+      macros: {
+        char: 'AIRI',
+        mood: args => `feels ${args[0]}`,
+      },
+    })).toBe('AIRI feels happy')
+  })
+})
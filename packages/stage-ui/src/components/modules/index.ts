@@ -1,4 +1,5 @@
 export { default as GamingFactorio } from './GamingFactorio.vue'
 export { default as GamingMinecraft } from './GamingMinecraft.vue'
+export { default as IdleMessages } from './IdleMessages.vue'
 export { default as MessagingDiscord } from './MessagingDiscord.vue'
 export { default as X } from './X.vue'
@@ -1,6 +1,13 @@
 export { default as ChatAssistantItem } from './ChatAssistantItem.vue'
+export { default as ChatAttachmentChip } from './ChatAttachmentChip.vue'
+export { default as ChatBranchSwitcher } from './ChatBranchSwitcher.vue'
+export { default as ChatComparison } from './ChatComparison.vue'
 export { default as ChatErrorItem } from './ChatErrorItem.vue'
+export { default as ChatGroupPanel } from './ChatGroupPanel.vue'
 export { default as ChatHistory } from './ChatHistory.vue'
+export { default as ChatSearchPanel } from './ChatSearchPanel.vue'
+export { default as ChatSessionList } from './ChatSessionList.vue'
+export { default as ChatUsageLabel } from './ChatUsageLabel.vue'
 export { default as ChatUserItem } from './ChatUserItem.vue'
 
-export type { ChatErrorMessage, ChatHistoryMessage } from './types'
+export type { ChatAttachmentInfo, ChatComparisonColumnInfo, ChatErrorFix, ChatErrorMessage, ChatGroupCardInfo, ChatGroupTurnOrder, ChatHistoryBranchInfo, ChatHistoryMessage, ChatMessageUsageInfo, ChatSearchResultItem, ChatSessionInfo } from './types'
@@ -1,10 +1,75 @@
-import type { ChatMessage, ChatSlices } from '../../../types/chat'
+import type { ChatAssistantMessage, ChatAttachmentMeta, ChatErrorInfo, ChatMessage, ChatSlices } from '../../../types/chat'
+
+export type { ChatErrorFix } from '../../../types/chat'
+
+export type ChatAttachmentInfo = ChatAttachmentMeta
 
 export interface ChatErrorMessage {
   role: 'error'
   content: string
+  error?: ChatErrorInfo
 }
 
 export type ChatHistoryMessage = (ChatMessage | ChatErrorMessage) & {
   slices?: ChatSlices[]
+  attachments?: ChatAttachmentInfo[]
+}
+
+export interface ChatMessageUsageInfo {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** Counted locally because the provider did not report usage */
+  estimated: boolean
+  /** In USD, absent when the model has no price */
+  cost?: number
+}
+
+export interface ChatHistoryBranchInfo {
+  /** Position of the message among its siblings, zero based */
+  index: number
+  total: number
+}
+
+export interface ChatSessionInfo {
+  id: string
+  title: string
+  updatedAt: number
+  pinned: boolean
+  /** Set on group sessions */
+  group?: { members: string[] }
+}
+
+export type ChatGroupTurnOrder = 'round-robin' | 'mentioned' | 'llm'
+
+/**
+ * Card that can take part in a group chat.
+ */
+export interface ChatGroupCardInfo {
+  id: string
+  name: string
+}
+
+export interface ChatSearchResultItem {
+  sessionId: string
+  sessionTitle: string
+  messageIndex: number
+  role: ChatHistoryMessage['role']
+  /** Snippet around the match, highlighted segments are the matched terms */
+  snippet: { text: string, highlighted: boolean }[]
+}
+
+/**
+ * One reply of a model comparison, as shown in its column.
+ */
+export interface ChatComparisonColumnInfo {
+  provider: string
+  model: string
+  message: ChatAssistantMessage
+  status: 'streaming' | 'done' | 'failed' | 'aborted'
+  timeToFirstTokenMs?: number
+  latencyMs?: number
+  usage?: ChatMessageUsageInfo
+  /** Message of the failure, for failed columns */
+  error?: string
 }
@@ -4,4 +4,5 @@ export * from './llmmarkerParser'
 export * from './markdown'
 export * from './micvad'
 export * from './queues'
+export * from './reasoningParser'
 export * from './whisper'
@@ -7,7 +7,7 @@ import { invoke } from '@vueuse/core'
 import { defineStore } from 'pinia'
 import { ref, shallowRef } from 'vue'
 
-import { EMOTION_VALUES } from '../constants/emotions'
+import { createDelayMarker, createEmoteMarker, createPauseMarker, resolveMarker } from '../markers'
 import { createQueue } from '../utils/queue'
 import { createControllableStream } from '../utils/stream'
 import { chunkEmitter, TTS_SPECIAL_TOKEN } from '../utils/tts'
@@ -18,92 +18,34 @@ export interface TextSegmentationItem {
 }
 
 export function useEmotionsMessageQueue(emotionsQueue: UseQueueReturn<Emotion>) {
-  function splitEmotion(content: string) {
-    for (const emotion of EMOTION_VALUES) {
-      // doesn't include the emotion, continue
-      if (!content.includes(emotion))
-        continue
-
-      return {
-        ok: true,
-        emotion: emotion as Emotion,
-      }
-    }
-
-    return {
-      ok: false,
-      emotion: '' as Emotion,
-    }
-  }
-
   return createQueue<string>({
     handlers: [
       async (ctx) => {
-        // if the message is an emotion, push the last content to the message queue
-        if (EMOTION_VALUES.includes(ctx.data as Emotion)) {
-          ctx.emit('emotion', ctx.data as Emotion)
-          emotionsQueue.enqueue(ctx.data as Emotion)
-          return
-        }
-
-        // otherwise we should process the message to find the emotions
-        {
-        // iterate through the message to find the emotions
-          const { ok, emotion } = splitEmotion(ctx.data)
-          if (ok) {
-            ctx.emit('emotion', emotion)
-            emotionsQueue.enqueue(emotion)
-          }
-        }
+        const emote = createEmoteMarker(({ emotion }) => {
+          ctx.emit('emotion', emotion)
+          emotionsQueue.enqueue(emotion)
+        })
+
+        const marker = resolveMarker(ctx.data, [emote])
+        if (marker?.type === 'resolved')
+          await marker.definition.handle(marker.args)
       },
     ],
   })
 }
 
 export function useDelayMessageQueue() {
-  function splitDelays(content: string) {
-    // doesn't include the delay, continue
-    if (!(/<\|DELAY:\d+\|>/i.test(content))) {
-      return {
-        ok: false,
-        delay: 0,
-      }
-    }
-
-    const delayExecArray = /<\|DELAY:(\d+)\|>/i.exec(content)
-
-    const delay = delayExecArray?.[1]
-    if (!delay) {
-      return {
-        ok: false,
-        delay: 0,
-      }
-    }
-
-    const delaySeconds = Number.parseFloat(delay)
-
-    if (delaySeconds <= 0 || Number.isNaN(delaySeconds)) {
-      return {
-        ok: true,
-        delay: 0,
-      }
-    }
-
-    return {
-      ok: true,
-      delay: delaySeconds,
-    }
-  }
-
   return createQueue<string>({
     handlers: [
       async (ctx) => {
-        // iterate through the message to find the emotions
-        const { ok, delay } = splitDelays(ctx.data)
-        if (ok) {
-          ctx.emit('delay', delay)
-          await sleep(delay * 1000)
+        const wait = async (milliseconds: number) => {
+          ctx.emit('delay', milliseconds / 1000)
+          await sleep(milliseconds)
         }
+
+        const marker = resolveMarker(ctx.data, [createDelayMarker(wait), createPauseMarker(wait)])
+        if (marker?.type === 'resolved')
+          await marker.definition.handle(marker.args)
       },
     ],
   })
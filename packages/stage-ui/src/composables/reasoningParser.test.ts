@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+
+import { useReasoningParser } from './reasoningParser'
+
+async function parse(chunks: string[]) {
+  const content: string[] = []
+  const reasoning: string[] = []
+
+  const parser = useReasoningParser({
+    onContent(text) {
+      content.push(text)
+    },
+    onReasoning(text) {
+      reasoning.push(text)
+    },
+  })
+
+  for (const chunk of chunks)
+    await parser.consume(chunk)
+
+  await parser.end()
+
+  return { content: content.join(''), reasoning: reasoning.join('') }
+}
+
+describe('useReasoningParser', () => {
+  it('should pass plain content through', async () => {
+    expect(await parse(['Hello, ', 'world!'])).toEqual({ content: 'Hello, world!', reasoning: '' })
+  })
+
+  it('should split think blocks from content', async () => {
+    expect(await parse(['<think>Hmm.</think>Hi <thinking>again</thinking>there'])).toEqual({
+      content: 'Hi there',
+      reasoning: 'Hmm.again',
+    })
+  })
+
+  it('should handle tags split across chunks', async () => {
+    const fullText = '<think>Let me see.</think>Hello, <world>!'
+
+    expect(await parse(fullText.split(''))).toEqual({ content: 'Hello, <world>!', reasoning: 'Let me see.' })
+  })
+
+  it('should keep an unclosed block as reasoning', async () => {
+    expect(await parse(['<think>Still thinking', ' <'])).toEqual({ content: '', reasoning: 'Still thinking <' })
+  })
+})
@@ -0,0 +1,78 @@
+const OPEN_TAGS = ['<think>', '<thinking>']
+const CLOSE_TAGS = ['</think>', '</thinking>']
+
+function findTag(text: string, tags: string[]) {
+  let found: { index: number, tag: string } | undefined
+  for (const tag of tags) {
+    const index = text.indexOf(tag)
+    if (index !== -1 && (!found || index < found.index))
+      found = { index, tag }
+  }
+
+  return found
+}
+
+/**
+ * Length of the longest tail of `text` that could still become one of `tags` with the next chunk.
+ */
+function partialTagLength(text: string, tags: string[]) {
+  let length = 0
+  for (const tag of tags) {
+    for (let i = Math.min(tag.length - 1, text.length); i > length; i--) {
+      if (text.endsWith(tag.slice(0, i))) {
+        length = i
+        break
+      }
+    }
+  }
+
+  return length
+}
+
+/**
+ * Splits inline `<think>...</think>` blocks, as streamed by DeepSeek R1 or Qwen through Ollama,
+ * out of the reply content. Tags may be split across chunks, an unclosed block stays reasoning.
+ */
+export function useReasoningParser(options: {
+  onContent?: (content: string) => void | Promise<void>
+  onReasoning?: (reasoning: string) => void | Promise<void>
+}) {
+  let buffer = ''
+  let inReasoning = false
+
+  async function emit(text: string) {
+    if (!text)
+      return
+
+    if (inReasoning)
+      await options.onReasoning?.(text)
+    else
+      await options.onContent?.(text)
+  }
+
+  return {
+    async consume(textPart: string) {
+      buffer += textPart
+
+      while (buffer) {
+        const tags = inReasoning ? CLOSE_TAGS : OPEN_TAGS
+        const found = findTag(buffer, tags)
+        if (!found) {
+          const pending = partialTagLength(buffer, tags)
+          await emit(buffer.slice(0, buffer.length - pending))
+          buffer = buffer.slice(buffer.length - pending)
+          return
+        }
+
+        await emit(buffer.slice(0, found.index))
+        buffer = buffer.slice(found.index + found.tag.length)
+        inReasoning = !inReasoning
+      }
+    },
+
+    async end() {
+      await emit(buffer)
+      buffer = ''
+    },
+  }
+}
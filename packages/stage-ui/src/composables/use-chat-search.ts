@@ -0,0 +1,101 @@
+import type { ChatSearchHit } from '../stores/chat/search-index'
+
+import { ref, shallowRef, watch } from 'vue'
+
+import { useChatStore } from '../stores/chat'
+import { createChatSearchIndex } from '../stores/chat/search-index'
+
+/**
+ * Full-text search over every chat session.
+ *
+ * The index is built from storage on first use. From then on a session is indexed again
+ * whenever its active branch may have changed, and dropped once it is deleted.
+ */
+export function useChatSearch() {
+  const chatStore = useChatStore()
+  const index = createChatSearchIndex()
+
+  const query = ref('')
+  const indexing = ref(false)
+  // Bumped on every index change, the index itself is not reactive
+  const revision = shallowRef(0)
+
+  let building: Promise<void> | undefined
+
+  async function rebuild() {
+    indexing.value = true
+    try {
+      index.clear()
+      const sessions = await chatStore.getAllSessions()
+      for (const [sessionId, messages] of Object.entries(sessions))
+        index.replaceSession(sessionId, messages)
+    }
+    finally {
+      indexing.value = false
+      revision.value++
+    }
+  }
+
+  function ensureIndex() {
+    building ??= rebuild().catch((error) => {
+      building = undefined
+      console.error('Failed to build chat search index:', error)
+    })
+
+    return building
+  }
+
+  // Hits point at positions in the active branch, so the whole session is indexed again rather than patched
+  async function reindexSession(sessionId: string) {
+    // Until the first build, changes are picked up by the build itself
+    if (!building)
+      return
+
+    await building
+    // Loading a session that was deleted in the meantime would bring it back
+    if (chatStore.listSessions().some(session => session.id === sessionId))
+      index.replaceSession(sessionId, await chatStore.getSessionMessages(sessionId))
+    else
+      index.removeSession(sessionId)
+
+    revision.value++
+  }
+
+  // Branch switches, regenerated replies, edits and removed messages of the open session
+  watch(() => chatStore.messages, () => {
+    void reindexSession(chatStore.activeSessionId)
+  })
+
+  // Sessions that were deleted, imported, or got messages while in the background
+  watch(
+    () => Object.fromEntries(chatStore.listSessions().map(session => [session.id, session.updatedAt])),
+    (sessions, previousSessions) => {
+      for (const [sessionId, updatedAt] of Object.entries(sessions)) {
+        if (previousSessions[sessionId] !== updatedAt)
+          void reindexSession(sessionId)
+      }
+      for (const sessionId of Object.keys(previousSessions)) {
+        if (!(sessionId in sessions))
+          void reindexSession(sessionId)
+      }
+    },
+  )
+
+  function search(text: string, limit?: number): ChatSearchHit[] {
+    return index.search(text, limit)
+  }
+
+  const results = shallowRef<ChatSearchHit[]>([])
+  watch([query, revision], () => {
+    results.value = search(query.value)
+  })
+
+  return {
+    query,
+    results,
+    indexing,
+    search,
+    rebuild,
+    ensureIndex,
+  }
+}
@@ -1,8 +1,11 @@
-import type { ChatEntry } from '../stores/chat'
+import type { ChatExportFormat, ChatExportOptions } from '../stores/chat/exporters'
+import type { ChatImportResult } from '../stores/chat/importers'
 
 import { isStageTamagotchi } from '@proj-airi/stage-shared'
 
 import { useChatStore } from '../stores/chat'
+import { exportChatSessions as renderChatSessions } from '../stores/chat/exporters'
+import { parseChatImport } from '../stores/chat/importers'
 import { useDisplayModelsStore } from '../stores/display-models'
 import { useLive2d } from '../stores/live2d'
 import { useMcpStore } from '../stores/mcp'
@@ -12,6 +15,7 @@ import { useDiscordStore } from '../stores/modules/discord'
 import { useFactorioStore } from '../stores/modules/gaming-factorio'
 import { useMinecraftStore } from '../stores/modules/gaming-minecraft'
 import { useHearingStore } from '../stores/modules/hearing'
+import { useIdleStore } from '../stores/modules/idle'
 import { useSpeechStore } from '../stores/modules/speech'
 import { useTwitterStore } from '../stores/modules/twitter'
 import { useOnboardingStore } from '../stores/onboarding'
@@ -32,6 +36,7 @@ export function useDataMaintenance() {
   const discordStore = useDiscordStore()
   const factorioStore = useFactorioStore()
   const minecraftStore = useMinecraftStore()
+  const idleStore = useIdleStore()
   const mcpStore = useMcpStore()
   const onboardingStore = useOnboardingStore()
   const airiCardStore = useAiriCardStore()
@@ -54,27 +59,70 @@ export function useDataMaintenance() {
     discordStore.resetState()
     factorioStore.resetState()
     minecraftStore.resetState()
+    idleStore.resetState()
   }
 
-  function deleteAllChatSessions() {
-    chatStore.resetAllSessions()
+  async function deleteAllChatSessions() {
+    await chatStore.resetAllSessions()
   }
 
-  function exportChatSessions() {
-    const data = chatStore.getAllSessions()
-    return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  // The avatar is embedded in exported transcripts, a failing preview leaves it out
+  async function loadCharacterAvatar() {
+    if (!settingsStore.stageModelSelected)
+      return undefined
+
+    try {
+      const model = await displayModelsStore.getDisplayModel(settingsStore.stageModelSelected)
+      if (!model?.previewImage || model.previewImage.startsWith('data:'))
+        return model?.previewImage
+
+      const blob = await (await fetch(model.previewImage)).blob()
+      return await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
+      })
+    }
+    catch (error) {
+      console.warn('Failed to load the character avatar for the export:', error)
+      return undefined
+    }
   }
 
-  function importChatSessions(payload: Record<string, unknown>) {
-    const normalizedPayload = payload as Record<string, unknown>
-    const sessions: Record<string, ChatEntry[]> = {}
+  /**
+   * Exports every session, as a backup that can be imported back with every branch and setting when no format is given.
+   */
+  async function exportChatSessions(format?: ChatExportFormat, options: Omit<ChatExportOptions, 'character'> = {}) {
+    if (!format)
+      return new Blob([JSON.stringify(await chatStore.getSessionBackup(), null, 2)], { type: 'application/json' })
+
+    const data = await chatStore.getAllSessions()
+
+    const titles = new Map(chatStore.listSessions().map(meta => [meta.id, meta.title]))
+    const card = airiCardStore.activeCard
+    const name = card?.nickname || card?.name
+    const file = renderChatSessions(
+      Object.entries(data).map(([id, messages]) => ({ id, title: titles.get(id), messages })),
+      format,
+      {
+        ...options,
+        character: name ? { name, avatar: format === 'html' ? await loadCharacterAvatar() : undefined } : undefined,
+      },
+    )
+
+    return new Blob([file.content], { type: file.mimeType })
+  }
 
-    for (const [sessionId, messages] of Object.entries(normalizedPayload)) {
-      if (Array.isArray(messages))
-        sessions[sessionId] = messages as ChatEntry[]
-    }
+  /**
+   * Reads a backup, a SillyTavern chat or a ChatGPT export, nothing is stored until it is imported.
+   */
+  async function readChatImport(file: File) {
+    return parseChatImport(file.name, await file.text())
+  }
 
-    chatStore.replaceSessions(sessions)
+  async function importChatSessions(result: ChatImportResult, mode: 'merge' | 'replace') {
+    await chatStore.importSessions(result.sessions, mode)
   }
 
   async function resetSettingsState() {
@@ -90,7 +138,7 @@ export function useDataMaintenance() {
     await deleteAllModels()
     await resetProvidersSettings()
     resetModulesSettings()
-    deleteAllChatSessions()
+    await deleteAllChatSessions()
     await resetSettingsState()
   }
 
@@ -108,6 +156,7 @@ export function useDataMaintenance() {
     resetModulesSettings,
     deleteAllChatSessions,
     exportChatSessions,
+    readChatImport,
     importChatSessions,
     deleteAllData,
     resetDesktopApplicationState,
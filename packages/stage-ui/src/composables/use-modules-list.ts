@@ -8,6 +8,7 @@ import { useConsciousnessStore } from '../stores/modules/consciousness'
 import { useDiscordStore } from '../stores/modules/discord'
 import { useFactorioStore } from '../stores/modules/gaming-factorio'
 import { useMinecraftStore } from '../stores/modules/gaming-minecraft'
+import { useIdleStore } from '../stores/modules/idle'
 import { useSpeechStore } from '../stores/modules/speech'
 import { useTwitterStore } from '../stores/modules/twitter'
 
@@ -33,6 +34,7 @@ export function useModulesList() {
   const twitterStore = useTwitterStore()
   const minecraftStore = useMinecraftStore()
   const factorioStore = useFactorioStore()
+  const idleStore = useIdleStore()
   const beatSyncState = ref<BeatSyncDetectorState>()
 
   const modulesList = computed<Module[]>(() => [
@@ -90,6 +92,15 @@ export function useModulesList() {
       configured: false,
       category: 'essential',
     },
+    {
+      id: 'idle',
+      name: t('settings.pages.modules.idle.title'),
+      description: t('settings.pages.modules.idle.description'),
+      icon: 'i-solar:chat-round-dots-bold-duotone',
+      to: '/settings/modules/idle',
+      configured: idleStore.configured,
+      category: 'essential',
+    },
     {
       id: 'messaging-discord',
       name: t('settings.pages.modules.messaging-discord.title'),
@@ -0,0 +1,39 @@
+import type { PDFPageProxy } from 'pdfjs-dist'
+
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist'
+
+// The entry point exports no text item type, the items carrying text are told apart by their `str`
+type TextItem = Extract<Awaited<ReturnType<PDFPageProxy['getTextContent']>>['items'][number], { str: string }>
+
+// Parsing runs in the PDF.js worker, only the extracted text comes back to the page
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+/**
+ * Plain text of every page of a PDF document, pages separated by a blank line.
+ * Scanned documents without a text layer come back empty.
+ */
+export async function extractPdfText(file: Blob) {
+  const loadingTask = getDocument({ data: new Uint8Array(await file.arrayBuffer()) })
+  const document = await loadingTask.promise
+
+  try {
+    const pages: string[] = []
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber)
+      const { items } = await page.getTextContent()
+      pages.push(items
+        .filter((item): item is TextItem => 'str' in item)
+        .map(item => item.hasEOL ? `${item.str}\n` : item.str)
+        .join('')
+        .trim())
+      page.cleanup()
+    }
+
+    return pages.filter(Boolean).join('\n\n')
+  }
+  finally {
+    await loadingTask.destroy()
+  }
+}
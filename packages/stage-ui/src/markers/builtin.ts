@@ -0,0 +1,90 @@
+import type { Emotion } from '../constants/emotions'
+
+import { z } from 'zod'
+
+import { EMOTION_EmotionMotionName_value, EMOTION_VALUES } from '../constants/emotions'
+import { defineMarker } from './define'
+
+// `<|EMOTE_HAPPY|>` is written `<|EMOTE:happy|>` in the marker grammar
+const EMOTION_NAMES = Object.fromEntries(EMOTION_VALUES.map(emotion => [emotion.slice('<|EMOTE_'.length, -'|>'.length).toLowerCase(), emotion])) as Record<string, Emotion>
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i
+
+// Plain numbers are milliseconds
+const duration = z.string().regex(DURATION_PATTERN, 'Expected a duration like 500ms or 1.5s').transform((value) => {
+  const [, amount, unit] = DURATION_PATTERN.exec(value)!
+  return unit?.toLowerCase() === 's' ? Number(amount) * 1000 : Number(amount)
+})
+
+/**
+ * `<|EMOTE:happy|>`, changes the expression of the character. An intensity such as
+ * `<|EMOTE:happy,0.6|>` is accepted and defaults to 1, the model isn't told about it as long as no
+ * renderer can blend expressions.
+ */
+export function createEmoteMarker(handle: (emote: { emotion: Emotion, intensity: number }) => void | Promise<void>) {
+  const names = Object.keys(EMOTION_NAMES) as [string, ...string[]]
+
+  return defineMarker({
+    name: 'EMOTE',
+    usage: '<|EMOTE:emotion|>',
+    description: `Shows an emotion from this point of the reply on. The emotions: ${
+      names.map(name => `${name} (feeling ${EMOTION_EmotionMotionName_value[EMOTION_NAMES[name]]})`).join(', ')
+    }.`,
+    aliases: Object.fromEntries(names.map(name => [`EMOTE_${name.toUpperCase()}`, name])),
+    arguments: z.tuple([
+      z.string().toLowerCase().pipe(z.enum(names)),
+      z.coerce.number().min(0).max(1).optional(),
+    ]).transform(([name, intensity]) => ({ emotion: EMOTION_NAMES[name], intensity: intensity ?? 1 })),
+    handle,
+  })
+}
+
+/**
+ * `<|DELAY:1|>`, waits for a number of seconds. Kept for the prompts written before `PAUSE`.
+ */
+export function createDelayMarker(handle: (milliseconds: number) => void | Promise<void>) {
+  return defineMarker({
+    name: 'DELAY',
+    usage: '<|DELAY:seconds|>',
+    description: 'Waits for the given number of seconds before going on.',
+    arguments: z.tuple([z.coerce.number().min(0)]).transform(([seconds]) => seconds * 1000),
+    handle,
+  })
+}
+
+/**
+ * `<|PAUSE:500ms|>`, waits for a duration in milliseconds or seconds.
+ */
+export function createPauseMarker(handle: (milliseconds: number) => void | Promise<void>) {
+  return defineMarker({
+    name: 'PAUSE',
+    usage: '<|PAUSE:duration|>',
+    description: 'Pauses for a duration such as 500ms or 1.5s before going on.',
+    arguments: z.tuple([duration]).transform(([milliseconds]) => milliseconds),
+    handle,
+  })
+}
+
+/**
+ * `<|ACT:{"motion":"wave"}|>` or `<|ACT:wave|>`, plays a motion of the model.
+ *
+ * @param handle called with the motion to play.
+ * @param motions names of the motions the loaded model has, read every time the prompt is composed.
+ */
+export function createActMarker(handle: (action: { motion: string }) => void | Promise<void>, motions: () => string[]) {
+  return defineMarker({
+    name: 'ACT',
+    usage: '<|ACT:{"motion":"name"}|>',
+    description: () => {
+      const names = motions()
+      return names.length > 0
+        ? `Plays a motion of your body. The motions: ${names.join(', ')}.`
+        : 'Plays a motion of your body, none are available right now.'
+    },
+    arguments: z.union([
+      z.object({ motion: z.string().min(1) }),
+      z.tuple([z.string().min(1)]).transform(([motion]) => ({ motion })),
+    ]),
+    handle,
+  })
+}
@@ -0,0 +1,29 @@
+import type { z } from 'zod'
+
+/**
+ * A special token the model writes inside `<|...|>`, e.g. `<|EMOTE:happy,0.6|>` or `<|ACT:{"motion":"wave"}|>`.
+ * Without a schema it takes any arguments, so the definitions of every marker can be kept together.
+ */
+export interface MarkerDefinition<T extends z.ZodType = z.ZodType<any, any>> {
+  /** Written before the colon, matched case-insensitively */
+  name: string
+  /** Told to the model in the system prompt, a function when it follows the state of the stage */
+  description: string | (() => string)
+  /** The marker as the model should write it, e.g. `<|PAUSE:500ms|>` */
+  usage: string
+  /**
+   * Validates the arguments. They are parsed as JSON when they start with `{` or `[`,
+   * otherwise split on commas into a list of trimmed strings, a marker without arguments gets an empty list.
+   */
+  arguments: T
+  /** Other names of the marker, mapped to the arguments they stand for, e.g. `EMOTE_HAPPY` to `happy` */
+  aliases?: Record<string, string>
+  handle: (args: z.output<T>) => void | Promise<void>
+}
+
+/**
+ * Typed helper for marker definitions, the handler receives the arguments parsed by the schema.
+ */
+export function defineMarker<T extends z.ZodType>(definition: MarkerDefinition<T>): MarkerDefinition {
+  return definition
+}
@@ -0,0 +1,3 @@
+export * from './builtin'
+export * from './define'
+export * from './parse'
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+
+import { Emotion } from '../constants/emotions'
+import { createActMarker, createDelayMarker, createEmoteMarker, createPauseMarker } from './builtin'
+import { defineMarker } from './define'
+import { describeMarkers, resolveMarker } from './parse'
+
+function noop() {}
+
+describe('resolveMarker', () => {
+  const emote = createEmoteMarker(noop)
+  const pause = createPauseMarker(noop)
+  const act = createActMarker(noop, () => ['wave'])
+
+  it('parses positional and JSON arguments with the marker schema', () => {
+    expect(resolveMarker('<|EMOTE:happy,0.6|>', [emote])).toMatchObject({ type: 'resolved', args: { emotion: Emotion.Happy, intensity: 0.6 } })
+    expect(resolveMarker('<|emote: Sad |>', [emote])).toMatchObject({ type: 'resolved', args: { emotion: Emotion.Sad, intensity: 1 } })
+    expect(resolveMarker('<|PAUSE:500ms|>', [pause])).toMatchObject({ type: 'resolved', args: 500 })
+    expect(resolveMarker('<|PAUSE:1.5s|>', [pause])).toMatchObject({ type: 'resolved', args: 1500 })
+    expect(resolveMarker('<|DELAY:2|>', [createDelayMarker(noop)])).toMatchObject({ type: 'resolved', args: 2000 })
+    expect(resolveMarker('<|ACT:{"motion":"wave"}|>', [act])).toMatchObject({ type: 'resolved', args: { motion: 'wave' } })
+    expect(resolveMarker('<|ACT:wave|>', [act])).toMatchObject({ type: 'resolved', args: { motion: 'wave' } })
+  })
+
+  it('keeps the legacy emotion tokens working through aliases', () => {
+    expect(resolveMarker(Emotion.Surprise, [emote])).toMatchObject({ type: 'resolved', args: { emotion: Emotion.Surprise, intensity: 1 } })
+    expect(resolveMarker('<|EMOTE_HAPPY:0.3|>', [emote])).toMatchObject({ type: 'resolved', args: { emotion: Emotion.Happy, intensity: 0.3 } })
+  })
+
+  it('tells unknown markers apart from invalid arguments', () => {
+    expect(resolveMarker('<|WINK|>', [emote])).toEqual({ type: 'unknown', name: 'WINK' })
+    expect(resolveMarker('<|EMOTE:bored|>', [emote])).toMatchObject({ type: 'invalid', definition: emote })
+    expect(resolveMarker('<|EMOTE:happy,2|>', [emote])).toMatchObject({ type: 'invalid' })
+    expect(resolveMarker('<|PAUSE:soon|>', [pause])).toMatchObject({ type: 'invalid', error: expect.stringContaining('500ms') })
+    expect(resolveMarker('<|ACT:{"motion":|>', [act])).toMatchObject({ type: 'invalid', error: expect.stringContaining('Malformed JSON') })
+    expect(resolveMarker('<|not a marker|>', [emote])).toBeUndefined()
+  })
+})
+
+describe('describeMarkers', () => {
+  it('lists the usage and description of every marker', () => {
+    const motions = ['wave']
+    const wink = defineMarker({ name: 'WINK', usage: '<|WINK|>', description: 'Winks.', arguments: z.tuple([]), handle: noop })
+    const act = createActMarker(noop, () => motions)
+
+    expect(describeMarkers([])).toBe('')
+    expect(describeMarkers([wink, act]).split('\n').slice(1)).toEqual([
+      '- <|WINK|>: Winks.',
+      '- <|ACT:{"motion":"name"}|>: Plays a motion of your body. The motions: wave.',
+    ])
+
+    motions.push('nod')
+    expect(describeMarkers([act])).toContain('The motions: wave, nod.')
+  })
+})
@@ -0,0 +1,81 @@
+import type { MarkerDefinition } from './define'
+
+import { z } from 'zod'
+
+// `<|NAME|>` or `<|NAME:arguments|>`
+const MARKER_PATTERN = /^<\|\s*([\w-]+)\s*(?::([\s\S]*))?\|>$/
+
+export type ResolvedMarker
+  = | { type: 'resolved', definition: MarkerDefinition, args: unknown }
+    | { type: 'unknown', name: string }
+    | { type: 'invalid', definition: MarkerDefinition, error: string }
+
+function parseArguments(raw: string | undefined): unknown {
+  const text = raw?.trim() ?? ''
+  if (!text)
+    return []
+
+  if (text.startsWith('{') || text.startsWith('['))
+    return JSON.parse(text)
+
+  return text.split(',').map(part => part.trim())
+}
+
+function findDefinition(name: string, definitions: Iterable<MarkerDefinition>) {
+  const key = name.toUpperCase()
+  for (const definition of definitions) {
+    if (definition.name.toUpperCase() === key)
+      return { definition }
+
+    const alias = Object.entries(definition.aliases ?? {}).find(([alias]) => alias.toUpperCase() === key)
+    if (alias)
+      return { definition, aliasArgs: alias[1] }
+  }
+}
+
+/**
+ * Matches a special token to one of `definitions` and validates its arguments,
+ * `undefined` when the token is not written in the marker grammar at all.
+ */
+export function resolveMarker(special: string, definitions: Iterable<MarkerDefinition>): ResolvedMarker | undefined {
+  const match = MARKER_PATTERN.exec(special.trim())
+  if (!match)
+    return undefined
+
+  const [, name, rawArgs] = match
+  const found = findDefinition(name, definitions)
+  if (!found)
+    return { type: 'unknown', name }
+
+  const { definition, aliasArgs } = found
+  // Arguments written after an alias follow the ones it stands for, e.g. `<|EMOTE_HAPPY:0.6|>`
+  const text = aliasArgs !== undefined && rawArgs?.trim() ? `${aliasArgs},${rawArgs}` : aliasArgs ?? rawArgs
+
+  let args: unknown
+  try {
+    args = parseArguments(text)
+  }
+  catch (error) {
+    return { type: 'invalid', definition, error: `Malformed JSON arguments: ${(error as Error).message}` }
+  }
+
+  const result = definition.arguments.safeParse(args)
+  if (!result.success)
+    return { type: 'invalid', definition, error: z.prettifyError(result.error) }
+
+  return { type: 'resolved', definition, args: result.data }
+}
+
+/**
+ * Section of the system prompt listing the markers the model may write, empty when there are none.
+ */
+export function describeMarkers(definitions: Iterable<MarkerDefinition>) {
+  const lines = [...definitions].map((definition) => {
+    const description = typeof definition.description === 'function' ? definition.description() : definition.description
+    return `- ${definition.usage}: ${description}`
+  })
+  if (lines.length === 0)
+    return ''
+
+  return `Besides text, your replies can contain the following markers, written exactly in this form. They are acted out when reached and never shown or spoken.\n${lines.join('\n')}`
+}
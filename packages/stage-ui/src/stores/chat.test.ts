@@ -1,21 +1,45 @@
 import type { ContextMessage } from '@proj-airi/server-sdk'
 
-import type { ContextPayload } from './chat'
+import type { ChatAssistantMessage } from '../types/chat'
+import type { ChatStreamEvent, ContextPayload } from './chat'
+import type { StreamOptions } from './llm'
+import type { ToolApprovalRequest } from './tools'
 
 import { createPinia, setActivePinia } from 'pinia'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { ref } from 'vue'
+import { nextTick, ref } from 'vue'
 
+import { createActMarker, createPauseMarker } from '../markers'
+import { TTS_FLUSH_INSTRUCTION } from '../utils/tts'
 import { useChatStore } from './chat'
+import { useLlmMarkersStore } from './llm-markers'
 import { installChatContextBridge } from './plugins/chat-context-bridge'
 
+const { mockActiveCard, mockCards, mockFallbackChain } = vi.hoisted(() => ({
+  mockActiveCard: { value: undefined as { greetings?: string[] } | undefined },
+  mockCards: new Map<string, Record<string, unknown>>(),
+  mockFallbackChain: [] as { provider: string, model: string }[],
+}))
+const mockStream = vi.fn()
+const mockSupports = vi.fn()
+const mockDiscover = vi.fn()
+const mockLoadCapabilities = vi.fn()
+const mockTranscription = vi.fn()
+const mockResolveTools = vi.fn(async (_overrides?: unknown, _requestApproval?: (request: ToolApprovalRequest) => Promise<boolean>) => [] as unknown[])
+const mockGenerateSessionTitle = vi.fn()
+const mockGenerateText = vi.fn()
+const mockClearSpeechPlayback = vi.fn()
 const mockSendContextUpdate = vi.fn()
+const mockSendChatComplete = vi.fn()
 const mockInitialize = vi.fn().mockResolvedValue(undefined)
 let contextUpdateHandler: ((event: { type: 'context:update', data: ContextMessage }) => void | Promise<void>) | null = null
 let broadcastPosts: unknown[] = []
 let bridge: { dispose: () => void } | null = null
 
 const localStorageMap = new Map<string, unknown>()
+const indexedDBMap = new Map<string, unknown>()
+// Sessions whose IndexedDB read rejects
+const failingReads = new Set<string>()
 
 vi.mock('@vueuse/core', () => {
   return {
@@ -37,16 +61,91 @@ vi.mock('@vueuse/core', () => {
   }
 })
 
+vi.mock('localforage', () => ({
+  default: {
+    INDEXEDDB: 'asyncStorage',
+    createInstance: () => ({
+      keys: async () => [...indexedDBMap.keys()],
+      getItem: async (key: string) => {
+        if (failingReads.has(key))
+          throw new Error('read failed')
+
+        return indexedDBMap.get(key) ?? null
+      },
+      setItem: async (key: string, value: unknown) => indexedDBMap.set(key, value).get(key),
+      removeItem: async (key: string) => {
+        indexedDBMap.delete(key)
+      },
+      clear: async () => indexedDBMap.clear(),
+    }),
+  },
+}))
+
+vi.mock('@xsai/generate-text', () => ({
+  generateText: (...args: unknown[]) => mockGenerateText(...args),
+}))
+
+vi.mock('./chat/session-title', () => ({
+  generateSessionTitle: (...args: unknown[]) => mockGenerateSessionTitle(...args),
+}))
+
 vi.mock('./llm', () => ({
   useLLM: () => ({
-    stream: vi.fn(),
-    discoverToolsCompatibility: vi.fn(),
+    stream: mockStream,
+  }),
+}))
+
+vi.mock('../composables/queues', () => ({
+  usePipelineCharacterSpeechPlaybackQueueStore: () => ({
+    clearAll: mockClearSpeechPlayback,
   }),
 }))
 
 vi.mock('./modules', () => ({
   useAiriCardStore: () => ({
     systemPrompt: ref(''),
+    activeCardId: ref('default'),
+    // NOTICE: storeToRefs chokes on undefined members, the card is only set when a test provides one
+    ...(mockActiveCard.value ? { activeCard: mockActiveCard.value } : {}),
+    getCard: (id: string) => mockCards.get(id),
+    renderTemplate: (text: string) => text,
+    composeSystemPrompt: (_lorebook?: unknown, card?: { description?: string }) => card?.description ?? '',
+  }),
+  useConsciousnessStore: () => ({
+    activeProvider: 'test-provider',
+    fallbackChain: mockFallbackChain,
+    modelPrices: { 'test-model': { input: 1, output: 2 } },
+    getContextLength: () => undefined,
+    resolveModelTarget: async (target: { provider: string, model: string }) => ({ ...target, chatProvider: {}, headers: {} }),
+  }),
+  useHearingStore: () => ({
+    configured: true,
+    activeTranscriptionProvider: 'test-hearing',
+    activeTranscriptionModel: 'test-whisper',
+    transcription: mockTranscription,
+  }),
+}))
+
+vi.mock('./providers', () => ({
+  useProvidersStore: () => ({
+    getProviderInstance: async () => ({}),
+  }),
+}))
+
+vi.mock('./tools', () => ({
+  useToolsStore: () => ({
+    tools: [{ name: 'debug_random_number' }],
+    isToolEnabled: () => true,
+    resolveTools: mockResolveTools,
+  }),
+}))
+
+vi.mock('./model-capabilities', () => ({
+  useModelCapabilitiesStore: () => ({
+    load: mockLoadCapabilities,
+    supports: mockSupports,
+    discover: mockDiscover,
+    observe: vi.fn(),
   }),
 }))
 
@@ -61,6 +160,7 @@ vi.mock('./mods/api/channel-server', () => ({
       }
     },
     sendContextUpdate: mockSendContextUpdate,
+    sendChatComplete: mockSendChatComplete,
   }),
 }))
 
@@ -69,10 +169,23 @@ describe('chat store', () => {
     setActivePinia(createPinia())
     broadcastPosts = []
     localStorageMap.clear()
+    indexedDBMap.clear()
+    failingReads.clear()
     mockSendContextUpdate.mockClear()
     mockInitialize.mockClear()
+    mockStream.mockReset()
+    mockSupports.mockReset()
+    mockDiscover.mockReset()
+    // Nothing is learned about a model unless a test says otherwise
+    mockDiscover.mockResolvedValue({ capabilities: {} })
+    mockLoadCapabilities.mockReset()
+    mockGenerateSessionTitle.mockReset()
+    mockGenerateText.mockReset()
     contextUpdateHandler = null
     bridge = null
+    mockActiveCard.value = undefined
+    mockCards.clear()
+    mockFallbackChain.length = 0
   })
 
   afterEach(() => {
@@ -120,4 +233,759 @@ describe('chat store', () => {
     expect(mockSendContextUpdate).toHaveBeenCalledWith(envelope)
     expect(broadcastPosts).toContain(envelope)
   })
+
+  it('keeps the partial reply and broadcasts stream-aborted when cancelled', async () => {
+    const store = useChatStore()
+    bridge = installChatContextBridge()
+
+    let streamStarted!: () => void
+    const started = new Promise<void>(resolve => streamStarted = resolve)
+
+    mockStream.mockImplementation((_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      return new Promise<void>((_resolve, reject) => {
+        options.abortSignal?.addEventListener('abort', () => reject(options.abortSignal?.reason))
+        void Promise.resolve(options.onStreamEvent?.({ type: 'text-delta', text: 'Once upon a time, in a very long monologue' }))
+          .then(() => streamStarted())
+      })
+    })
+
+    const sending = store.send('tell me a story', { model: 'test-model', chatProvider: {} as never })
+    await started
+
+    expect(store.cancel()).toBe(true)
+    await expect(sending).resolves.toBeUndefined()
+
+    const last = store.messages.at(-1)
+    expect(last?.role).toBe('assistant')
+    expect(last?.content).toBe('Once upon a time, in a very long monologue')
+    expect(last?.context?.meta).toEqual({ provider: 'test-provider', model: 'test-model', cardId: 'default', interrupted: true })
+    expect(store.sending).toBe(false)
+    expect(mockClearSpeechPlayback).toHaveBeenCalled()
+    expect(store.cancel()).toBe(false)
+    expect(broadcastPosts).toContainEqual({ type: 'stream-aborted', sessionId: 'default' } satisfies ChatStreamEvent)
+    expect(broadcastPosts).not.toContainEqual({ type: 'stream-end', sessionId: 'default' } satisfies ChatStreamEvent)
+  })
+
+  it('drops the partial reply of a session deleted while it was streaming', async () => {
+    const store = useChatStore()
+    let streamStarted!: () => void
+    const started = new Promise<void>(resolve => streamStarted = resolve)
+    mockStream.mockImplementation((_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      return new Promise<void>((_resolve, reject) => {
+        options.abortSignal?.addEventListener('abort', () => reject(options.abortSignal?.reason))
+        void Promise.resolve(options.onStreamEvent?.({ type: 'text-delta', text: 'Once upon a time, in a very long monologue' }))
+          .then(() => streamStarted())
+      })
+    })
+
+    const sessionId = store.createSession('Story')
+    await store.loadSession(sessionId)
+    const sending = store.send('tell me a story', { model: 'test-model', chatProvider: {} as never })
+    await started
+
+    await store.deleteSession(sessionId)
+    await expect(sending).resolves.toBeUndefined()
+    await nextTick()
+
+    expect(store.listSessions().map(session => session.id)).not.toContain(sessionId)
+    expect(indexedDBMap.has(sessionId)).toBe(false)
+    expect(store.sending).toBe(false)
+  })
+
+  it('migrates flat v2 sessions into history trees', async () => {
+    const legacy = ref<Record<string, unknown> | null>({
+      'session-legacy': [
+        { role: 'system', content: 'system' },
+        { role: 'user', content: 'hi' },
+      ],
+    })
+    localStorageMap.set('chat/messages/v2', legacy)
+
+    const store = useChatStore()
+    store.setActiveSession('session-legacy')
+    await store.loadSession('session-legacy')
+
+    expect(store.messages.map(message => message.role)).toEqual(['system', 'user'])
+    expect(store.messages[1].parentId).toBe(store.messages[0].id)
+    expect(legacy.value).toBeNull()
+    expect(indexedDBMap.has('session-legacy')).toBe(true)
+  })
+
+  it('keeps inactive sessions in storage until they are opened', async () => {
+    indexedDBMap.set('session-stored', {
+      entries: {
+        root: { id: 'root', role: 'system', content: 'system' },
+        question: { id: 'question', parentId: 'root', role: 'user', content: 'stored question' },
+      },
+      activeLeafId: 'question',
+    })
+
+    const store = useChatStore()
+    await store.loadSession('default')
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+    await nextTick()
+
+    // Only the session that changed is written back
+    expect(indexedDBMap.get('default')).toMatchObject({ activeLeafId: store.messages.at(-1)?.id })
+    expect(indexedDBMap.get('session-stored')).toMatchObject({ activeLeafId: 'question' })
+
+    store.setActiveSession('session-stored')
+    await store.loadSession('session-stored')
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'stored question'])
+
+    const sessions = await store.getAllSessions()
+    expect(Object.keys(sessions).sort()).toEqual(['default', 'session-stored'])
+
+    await store.replaceSessions({ imported: [{ role: 'user', content: 'imported' }] })
+    await nextTick()
+    expect([...indexedDBMap.keys()]).toEqual(['imported'])
+    expect(store.activeSessionId).toBe('imported')
+
+    // Merged sessions are rooted under the system prompt and listed with their title
+    await store.importSessions([{
+      id: 'tavern',
+      title: 'Seraphina',
+      createdAt: 1000,
+      updatedAt: 2000,
+      tree: { entries: { greeting: { id: 'greeting', role: 'user', content: 'hello' } }, activeLeafId: 'greeting' },
+    }], 'merge')
+    await nextTick()
+    expect([...indexedDBMap.keys()].sort()).toEqual(['imported', 'tavern'])
+    expect(store.listSessions().find(session => session.id === 'tavern')).toMatchObject({ title: 'Seraphina', updatedAt: 2000 })
+    expect((await store.getSessionMessages('tavern')).map(message => message.role)).toEqual(['system', 'user'])
+  })
+
+  it('never overwrites a stored session it failed to read', async () => {
+    const stored = {
+      entries: {
+        root: { id: 'root', role: 'system', content: 'system' },
+        question: { id: 'question', parentId: 'root', role: 'user', content: 'stored question' },
+      },
+      activeLeafId: 'question',
+    }
+    indexedDBMap.set('session-stored', stored)
+    failingReads.add('session-stored')
+    mockActiveCard.value = { greetings: ['Hello there'] }
+
+    const store = useChatStore()
+    store.setActiveSession('session-stored')
+    await store.loadSession('session-stored')
+    await nextTick()
+
+    expect(store.activeSessionLoadError).toBe('read failed')
+    expect(store.messages.map(message => message.role)).toEqual(['system'])
+    expect(indexedDBMap.get('session-stored')).toEqual(stored)
+
+    failingReads.delete('session-stored')
+    await store.retrySessionLoad('session-stored')
+    await nextTick()
+
+    expect(store.activeSessionLoadError).toBeUndefined()
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'stored question'])
+    expect(indexedDBMap.get('session-stored')).toMatchObject({ activeLeafId: 'question' })
+  })
+
+  it('restores every branch and setting of a backup', async () => {
+    const store = useChatStore()
+    const replies = ['first reply', 'second reply']
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: replies.shift()! })
+    })
+    const options = { model: 'test-model', chatProvider: {} as never }
+
+    await store.send('hi', options)
+    await store.regenerate(2, options)
+    store.renameSession('default', 'Greetings')
+    store.pinSession('default')
+    store.setSessionToolEnabled('echo', false)
+    store.setSessionGroup({ members: ['default', 'alice'], turnOrder: 'mentioned' }, 'default')
+    const meta = { ...store.listSessions()[0] }
+    const backup = JSON.parse(JSON.stringify(await store.getSessionBackup()))
+
+    await store.resetAllSessions()
+    expect(store.messages.map(message => message.role)).toEqual(['system'])
+
+    await store.replaceSessions(backup)
+    await nextTick()
+
+    expect(store.listSessions()).toEqual([meta])
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'second reply'])
+    expect(store.messageBranches[2].siblingIds).toHaveLength(2)
+    expect(indexedDBMap.get('default')).toMatchObject({ activeLeafId: store.messages[2].id })
+  })
+
+  it('regenerates and edits messages as sibling branches', async () => {
+    const store = useChatStore()
+    const replies = ['first reply', 'second reply', 'edited reply']
+
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: replies.shift()! })
+    })
+    const options = { model: 'test-model', chatProvider: {} as never }
+
+    await store.send('hi', options)
+    await store.regenerate(2, options)
+
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'second reply'])
+    const [firstReplyId] = store.messageBranches[2].siblingIds
+    expect(store.messageBranches[2]).toEqual({ siblingIds: [firstReplyId, store.messages[2].id], index: 1 })
+
+    // The LLM only sees the active branch
+    expect(mockStream.mock.calls[1][2]).toEqual([
+      expect.objectContaining({ role: 'system' }),
+      { role: 'user', content: 'hi' },
+    ])
+
+    expect(store.switchBranch(firstReplyId)).toBe(true)
+    expect(store.messages.at(-1)?.content).toBe('first reply')
+
+    await store.editAndResend(1, 'hello', options)
+
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hello', 'edited reply'])
+    expect(store.messageBranches[1].siblingIds).toHaveLength(2)
+  })
+
+  it('keeps showing the previous branch when a regeneration or edit gets no answer', async () => {
+    const store = useChatStore()
+    const options = { model: 'test-model', chatProvider: {} as never }
+    mockStream.mockImplementationOnce(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'first reply' })
+    })
+    await store.send('hi', options)
+
+    mockStream.mockRejectedValue(Object.assign(new Error('Incorrect API key provided'), { status: 401 }))
+    await expect(store.regenerate(2, options)).rejects.toThrow('Incorrect API key provided')
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'first reply'])
+
+    await expect(store.editAndResend(1, 'hello', options)).rejects.toThrow('Incorrect API key provided')
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'first reply'])
+    // The edit stays reachable as a sibling
+    expect(store.messageBranches[1].siblingIds).toHaveLength(2)
+  })
+
+  it('opens new sessions with the card greeting and swipes through the alternates', async () => {
+    mockActiveCard.value = { greetings: ['Hello there', '', 'Welcome back'] }
+    const store = useChatStore()
+    const spoken: string[] = []
+    store.onTokenLiteral(async literal => void spoken.push(literal))
+
+    const sessionId = store.createSession()
+    await store.loadSession(sessionId)
+
+    expect(store.messages.map(message => message.role)).toEqual(['system', 'assistant'])
+    expect(store.messages[1].content).toBe('Hello there')
+    expect(store.greetingSwipe).toEqual({ index: 0, total: 2 })
+    // The greeting is spoken in the background, let it finish before swiping
+    await vi.waitFor(() => expect(spoken.join('')).toContain('Hello there'))
+
+    expect(await store.swipeGreeting(1)).toBe(true)
+    expect(store.messages[1].content).toBe('Welcome back')
+    expect(store.greetingSwipe).toEqual({ index: 1, total: 2 })
+    expect(spoken.join('').replaceAll(TTS_FLUSH_INSTRUCTION, '')).toContain('Welcome back')
+
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'reply' })
+    })
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'Welcome back', 'hi', 'reply'])
+    expect(store.greetingSwipe).toBeUndefined()
+    expect(await store.swipeGreeting(1)).toBe(false)
+  })
+
+  it('lets the members of a group session take turns with their own prompt and voice', async () => {
+    mockCards.set('alice', {
+      name: 'Alice',
+      description: 'Alice is a knight.',
+      greetings: ['Hello'],
+      greetingsGroupOnly: ['Hello everyone'],
+      extensions: { airi: { modules: { speech: { model: 'tts', voice_id: 'alice-voice' } } } },
+    })
+    mockCards.set('bob', { name: 'Robert', nickname: 'Bob', description: 'Bob is a bard.' })
+    mockCards.set('carol', { name: 'Carol', description: 'Carol is a cook.' })
+    const store = useChatStore()
+    const speakers: unknown[] = []
+    store.onBeforeMessageComposed(async (_message, payload) => void speakers.push(payload?.speaker))
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'A song!' })
+    })
+    const options = { model: 'test-model', chatProvider: {} as never }
+
+    const sessionId = store.createSession('', { members: ['alice', 'bob'], turnOrder: 'mentioned' })
+    await store.loadSession(sessionId)
+
+    // The first member greets, with the greetings reserved for groups as alternates
+    expect(store.messages[1]).toMatchObject({ content: 'Hello', context: { meta: { greeting: 0, cardId: 'alice' } } })
+    expect(store.greetingSwipe).toEqual({ index: 0, total: 2 })
+    await vi.waitFor(() => expect(speakers).toEqual([{ cardId: 'alice', name: 'Alice', speech: { model: 'tts', voice_id: 'alice-voice' } }]))
+
+    await store.send('Robert, play something', options)
+
+    const messages = mockStream.mock.calls.at(-1)?.[2] as { role: string, content: string }[]
+    expect(messages[0].content).toContain('Bob is a bard.')
+    expect(messages[0].content).not.toContain('Alice is a knight.')
+    expect(messages[0].content).toContain('You are Bob in a group conversation with Alice, {{user}}.')
+    expect(messages[1]).toEqual({ role: 'user', content: 'Alice: Hello' })
+    expect(store.messages.at(-1)).toMatchObject({ content: 'A song!', context: { meta: { cardId: 'bob' } } })
+    expect(speakers.at(-1)).toMatchObject({ cardId: 'bob', name: 'Bob' })
+
+    // Nobody is mentioned, the next member in turn replies
+    await store.send('nice', options)
+    expect(store.messages.at(-1)?.context?.meta?.cardId).toBe('alice')
+
+    // Carol would be next in turn, but regenerating keeps the member that replied
+    store.setSessionGroup({ members: ['alice', 'bob', 'carol'], turnOrder: 'round-robin' })
+    await store.regenerate(store.messages.length - 1, options)
+    expect(store.messages.at(-1)?.context?.meta?.cardId).toBe('alice')
+    expect(store.messageBranches.at(-1)?.siblingIds).toHaveLength(2)
+
+    await store.send('and now?', options)
+    expect(store.messages.at(-1)?.context?.meta?.cardId).toBe('bob')
+  })
+
+  it('stops asking the model for the next speaker when the reply is stopped', async () => {
+    mockCards.set('alice', { name: 'Alice', description: 'Alice is a knight.' })
+    mockCards.set('bob', { name: 'Bob', description: 'Bob is a bard.' })
+    const store = useChatStore()
+    let askedForSpeaker!: () => void
+    const asked = new Promise<void>(resolve => askedForSpeaker = resolve)
+    mockGenerateText.mockImplementation(({ abortSignal }: { abortSignal?: AbortSignal }) => new Promise((_resolve, reject) => {
+      abortSignal?.addEventListener('abort', () => reject(abortSignal.reason))
+      askedForSpeaker()
+    }))
+
+    const sessionId = store.createSession('', { members: ['alice', 'bob'], turnOrder: 'llm' })
+    await store.loadSession(sessionId)
+    const messageCount = store.messages.length
+    const sending = store.send('who goes next?', { model: 'test-model', chatProvider: { chat: (model: string) => ({ model }) } as never })
+    await asked
+
+    expect(store.cancel()).toBe(true)
+    await expect(sending).resolves.toBeUndefined()
+    expect(mockStream).not.toHaveBeenCalled()
+    expect(store.messages).toHaveLength(messageCount)
+    expect(store.sending).toBe(false)
+  })
+
+  it('falls back to the next model of the chain and records it on the reply', async () => {
+    mockFallbackChain.push({ provider: 'cloud', model: 'cloud-model' })
+    const store = useChatStore()
+
+    mockStream.mockImplementation(async (model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      if (model === 'test-model')
+        throw new Error('model not found')
+
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'from the cloud' })
+    })
+
+    mockSupports.mockImplementation((model: string) => model === 'test-model' ? true : undefined)
+    mockDiscover.mockResolvedValue({ baseURL: 'https://cloud/v1/', model: 'cloud-model', capabilities: { tools: { supported: false, source: 'probe', checkedAt: 0 } } })
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    expect(mockStream.mock.calls.map(([model]) => model)).toEqual(['test-model', 'cloud-model'])
+    // The fallback was never discovered, it is before its first request
+    expect(mockDiscover).toHaveBeenCalledTimes(1)
+    expect(mockDiscover).toHaveBeenCalledWith('cloud-model', {}, { providerId: 'cloud' })
+    expect(mockStream.mock.calls[1][3].supportsTools).toBe(false)
+    expect(store.messages.at(-1)?.content).toBe('from the cloud')
+    expect(store.messages.at(-1)?.context?.meta).toEqual({ provider: 'cloud', model: 'cloud-model', cardId: 'default' })
+  })
+
+  it('sends tools to the active model when its capabilities are only in storage', async () => {
+    let loaded = false
+    mockLoadCapabilities.mockImplementation(async () => {
+      loaded = true
+    })
+    mockSupports.mockImplementation(() => loaded ? true : undefined)
+    const store = useChatStore()
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    expect(mockDiscover).not.toHaveBeenCalled()
+    expect(mockStream.mock.calls[0][3].supportsTools).toBe(true)
+  })
+
+  it('discovers the active model when nothing is known about it', async () => {
+    mockDiscover.mockResolvedValue({ capabilities: { tools: { supported: false, source: 'probe', checkedAt: 0 } } })
+    const store = useChatStore()
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    expect(mockDiscover).toHaveBeenCalledWith('test-model', {}, expect.anything())
+    expect(mockStream.mock.calls[0][3].supportsTools).toBe(false)
+  })
+
+  it('speaks up on its own with an instruction the history never keeps', async () => {
+    const store = useChatStore()
+    bridge = installChatContextBridge()
+    const composed = vi.fn()
+    store.onAfterMessageComposed(async message => composed(message))
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'Still there?' })
+    })
+    composed.mockClear()
+
+    await expect(store.nudge('[say something]', { model: 'test-model', chatProvider: {} as never })).resolves.toBe(true)
+
+    const messages = mockStream.mock.calls.at(-1)?.[2] as { role: string, content: unknown }[]
+    expect(messages.at(-1)).toEqual({ role: 'system', content: '[say something]' })
+    expect(store.messages.map(message => message.content)).not.toContain('[say something]')
+    expect(store.messages.at(-1)).toMatchObject({ role: 'assistant', content: 'Still there?', context: { source: 'idle-engine' } })
+    expect(mockSendContextUpdate).toHaveBeenCalledWith(expect.objectContaining({ role: 'assistant', source: 'idle-engine' }))
+    expect(composed).not.toHaveBeenCalled()
+  })
+
+  it('describes the registered markers at the end of the system prompt', async () => {
+    const store = useChatStore()
+    const unregister = useLlmMarkersStore().registerMarker(createPauseMarker(() => {}))
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+    let messages = mockStream.mock.calls.at(-1)?.[2] as { role: string, content: string }[]
+    expect(messages[0].content).toMatch(/- <\|PAUSE:duration\|>: .+$/)
+    expect(store.messages[0].content).not.toContain('PAUSE')
+
+    unregister()
+    await store.send('again', { model: 'test-model', chatProvider: {} as never })
+    messages = mockStream.mock.calls.at(-1)?.[2] as { role: string, content: string }[]
+    expect(messages[0].content).not.toContain('PAUSE')
+  })
+
+  it('composes the messages after the before-compose listeners ran and reports the result', async () => {
+    const store = useChatStore()
+    const events: string[] = []
+    let unregister = () => {}
+    store.onBeforeMessageComposed(async () => {
+      events.push('before-compose')
+      unregister = useLlmMarkersStore().registerMarker(createPauseMarker(() => {}))
+    })
+    store.onComposeReport(async (_message, report) => void events.push(`compose-report ${JSON.stringify(report)}`))
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+    unregister()
+
+    const messages = mockStream.mock.calls.at(-1)?.[2] as { role: string, content: string }[]
+    expect(messages[0].content).toContain('PAUSE')
+    expect(events).toEqual(['before-compose', 'compose-report {}'])
+  })
+
+  it('keeps sending when a hook throws', async () => {
+    const store = useChatStore()
+    const spoken: string[] = []
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    store.onTokenLiteral(async () => {
+      throw new Error('speech is down')
+    })
+    store.onTokenLiteral(async literal => void spoken.push(literal))
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'still here' })
+    })
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    expect(store.messages.at(-1)?.content).toBe('still here')
+    expect(spoken.join('')).toContain('still here')
+    expect(consoleError).toHaveBeenCalledWith('Listener of "token-literal" failed:', new Error('speech is down'))
+    consoleError.mockRestore()
+  })
+
+  it('sends attachments as text the model can read and keeps them on the message', async () => {
+    const store = useChatStore()
+    mockTranscription.mockResolvedValue({ mode: 'generate', text: 'call mom at five' })
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'noted' })
+    })
+
+    const memo = new File(['audio'], 'memo.webm', { type: 'audio/webm' })
+    await store.send('what did I say?', {
+      model: 'test-model',
+      chatProvider: {} as never,
+      attachments: [
+        { type: 'audio', file: memo },
+        { type: 'text', file: new File(['ERROR disk full'], 'server.log') },
+      ],
+    })
+
+    expect(mockTranscription).toHaveBeenCalledWith('test-hearing', {}, 'test-whisper', memo)
+    const userContent = [
+      { type: 'text', text: 'what did I say?' },
+      { type: 'text', text: '<attachment name="memo.webm" type="audio">\ncall mom at five\n</attachment>' },
+      { type: 'text', text: '<attachment name="server.log" type="text">\nERROR disk full\n</attachment>' },
+    ]
+    expect(mockStream.mock.calls[0][2].at(-1)).toEqual({ role: 'user', content: userContent })
+    expect(store.messages.at(-2)).toMatchObject({
+      content: userContent,
+      attachments: [
+        { type: 'audio', name: 'memo.webm', mimeType: 'audio/webm', size: 5 },
+        { type: 'text', name: 'server.log', mimeType: '', size: 15 },
+      ],
+    })
+
+    // Editing the text keeps the attachments
+    await store.editAndResend(store.messages.length - 2, 'and the log?', { model: 'test-model', chatProvider: {} as never })
+    expect(store.messages.at(-2)?.content).toEqual([{ type: 'text', text: 'and the log?' }, ...userContent.slice(1)])
+    expect(store.messages.at(-2)?.attachments).toHaveLength(2)
+
+    // An attachment that can't be read is reported instead of sent
+    mockTranscription.mockRejectedValueOnce(new Error('provider offline'))
+    await store.send('again', { model: 'test-model', chatProvider: {} as never, attachments: [{ type: 'audio', file: memo }] })
+    expect(mockStream).toHaveBeenCalledTimes(2)
+    expect(store.messages.at(-1)).toMatchObject({ role: 'error', content: 'Attachment "memo.webm": provider offline' })
+  })
+
+  it('takes back the user message of a failed send and nothing before it', async () => {
+    const store = useChatStore()
+    mockStream.mockImplementationOnce(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'first reply' })
+    })
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    mockStream.mockRejectedValueOnce(Object.assign(new Error('Incorrect API key provided'), { status: 401 }))
+    await expect(store.send('again', { model: 'test-model', chatProvider: {} as never })).rejects.toThrow('Incorrect API key provided')
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'first reply'])
+
+    // Composing fails before the message was added, the reply it would have answered stays
+    const unregister = useLlmMarkersStore().registerMarker(createActMarker(() => {}, () => {
+      throw new Error('no model loaded')
+    }))
+    await expect(store.send('and again', { model: 'test-model', chatProvider: {} as never })).rejects.toThrow('no model loaded')
+    unregister()
+    expect(store.messages.map(message => message.content)).toEqual([expect.any(String), 'hi', 'first reply'])
+  })
+
+  it('records classified errors and leaves them out of the prompt', async () => {
+    const store = useChatStore()
+    mockStream.mockRejectedValueOnce(Object.assign(new Error('Incorrect API key provided'), { status: 401 }))
+
+    const error = await store.send('hi', { model: 'test-model', chatProvider: {} as never }).catch(error => error)
+    store.appendError(error)
+
+    expect(store.messages.at(-1)).toMatchObject({
+      role: 'error',
+      content: 'Incorrect API key provided',
+      error: { category: 'auth', status: 401, fix: 'open-provider-settings', provider: 'test-provider', model: 'test-model' },
+    })
+
+    mockStream.mockResolvedValue(undefined)
+    await store.send('again', { model: 'test-model', chatProvider: {} as never })
+    expect(mockStream.mock.calls.at(-1)![2].some((message: { role: string }) => message.role === 'error')).toBe(false)
+    expect(JSON.stringify(mockStream.mock.calls.at(-1)![2])).not.toContain('Incorrect API key')
+
+    store.includeErrorsInPrompt = true
+    await store.send('once more', { model: 'test-model', chatProvider: {} as never })
+    expect(mockStream.mock.calls.at(-1)![2]).toContainEqual({ role: 'user', content: 'The previous request failed (auth): Incorrect API key provided' })
+  })
+
+  it('compares models side by side and only speaks the reply that is kept', async () => {
+    const store = useChatStore()
+    const spoken: string[] = []
+    const specials: string[] = []
+    store.onTokenLiteral(async literal => void spoken.push(literal))
+    store.onTokenSpecial(async special => void specials.push(special))
+    mockStream.mockImplementation(async (model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      if (model === 'broken-model')
+        throw Object.assign(new Error('Rate limit reached'), { status: 429 })
+
+      await options.onStreamEvent?.({ type: 'text-delta', text: `<|EMOTE_HAPPY|>Hi from ${model}` })
+      await options.onStreamEvent?.({ type: 'finish', usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } })
+    })
+
+    await store.compare('hi', [
+      { provider: 'test-provider', model: 'test-model' },
+      { provider: 'cloud', model: 'cloud-model' },
+      { provider: 'cloud', model: 'broken-model' },
+    ])
+
+    expect(mockStream).toHaveBeenCalledTimes(3)
+    expect(mockStream.mock.calls[0][2]).toEqual(mockStream.mock.calls[1][2])
+    expect(mockStream.mock.calls[0][3].tools).toBeUndefined()
+    expect(spoken).toEqual([])
+    expect(store.messages.at(-1)?.role).toBe('user')
+
+    const [first, second, broken] = store.comparison!.columns
+    expect(first).toMatchObject({ status: 'done', message: { content: 'Hi from test-model' }, usage: { promptTokens: 5, completionTokens: 3, totalTokens: 8 } })
+    expect(first.timeToFirstTokenMs).toBeGreaterThanOrEqual(0)
+    expect(first.latencyMs).toBeGreaterThanOrEqual(first.timeToFirstTokenMs!)
+    expect(second.message.content).toBe('Hi from cloud-model')
+    expect(broken).toMatchObject({ status: 'failed', error: { message: 'Rate limit reached', info: { category: 'rate-limit', model: 'broken-model' } } })
+
+    await store.keepComparisonReply(1)
+
+    expect(store.comparison).toBeUndefined()
+    expect(store.messages.at(-1)).toMatchObject({
+      role: 'assistant',
+      content: 'Hi from cloud-model',
+      context: { meta: { provider: 'cloud', model: 'cloud-model' } },
+    })
+    expect(spoken.join('').replaceAll(TTS_FLUSH_INSTRUCTION, '')).toBe('Hi from cloud-model')
+    expect(specials).toEqual(['<|EMOTE_HAPPY|>'])
+  })
+
+  it('resolves the tools of the registry with the session overrides', async () => {
+    const store = useChatStore()
+    const probe = { type: 'function', function: { name: 'probe' } }
+    mockResolveTools.mockResolvedValueOnce([{ type: 'function', function: { name: 'registered' } }])
+    mockStream.mockImplementation(async () => {})
+
+    store.setSessionToolEnabled('debug_random_number', false)
+    store.setSessionToolEnabled('mcp_list_tools', true)
+    store.setSessionToolEnabled('mcp_list_tools', undefined)
+    expect(store.activeSessionTools).toEqual({ debug_random_number: false })
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never, tools: [probe as never] })
+
+    const tools = mockStream.mock.calls[0][3].tools as () => Promise<unknown[]>
+    expect(await tools()).toEqual([{ type: 'function', function: { name: 'registered' } }, probe])
+    expect(mockResolveTools).toHaveBeenCalledWith([undefined, { debug_random_number: false }], expect.any(Function))
+  })
+
+  it('waits for the user on tool calls that ask for approval and keeps the decision', async () => {
+    const store = useChatStore()
+    let requestApproval: ((request: ToolApprovalRequest) => Promise<boolean>) | undefined
+    mockResolveTools.mockImplementationOnce(async (_overrides, handler) => {
+      requestApproval = handler
+      return []
+    })
+
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await (options.tools as () => Promise<unknown>)()
+      const toolCall = { toolCallId: 'call-1', toolCallType: 'function' as const, toolName: 'mcp_connect_server', args: '{"command":"rm"}' }
+
+      const decision = requestApproval!({ toolCallId: 'call-1', name: 'mcp_connect_server', args: { command: 'rm' }, policy: 'ask' })
+      expect(store.streamingMessage.slices).toEqual([{ type: 'tool-call', toolCall, approval: { policy: 'ask', status: 'pending' } }])
+      expect(store.decideToolCall('call-1', false)).toBe(true)
+      expect(await decision).toBe(false)
+      expect(store.decideToolCall('call-1', true)).toBe(false)
+
+      await options.onStreamEvent?.({ type: 'tool-call', ...toolCall })
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'Okay, I will not.' })
+    })
+
+    await store.send('clean up', { model: 'test-model', chatProvider: {} as never })
+
+    const reply = store.messages.at(-1) as ChatAssistantMessage
+    expect(reply.slices[0]).toEqual({
+      type: 'tool-call',
+      toolCall: expect.objectContaining({ toolCallId: 'call-1' }),
+      approval: { policy: 'ask', status: 'denied', decidedAt: expect.any(Number) },
+    })
+    expect(reply.slices.filter(slice => slice.type === 'tool-call')).toHaveLength(1)
+  })
+
+  it('leaves out what the model is known not to support and warns about it', async () => {
+    const store = useChatStore()
+    const warnings: string[] = []
+    store.onCapabilityWarning((capability, model) => {
+      warnings.push(`${capability}:${model}`)
+    })
+    mockSupports.mockReturnValue(false)
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'I only see text' })
+    })
+
+    const image = { type: 'image' as const, data: 'aGk=', mimeType: 'image/png' }
+    await store.send('look', { model: 'test-model', chatProvider: {} as never, attachments: [image] })
+    await store.send('again', { model: 'test-model', chatProvider: {} as never })
+    await store.send('', { model: 'test-model', chatProvider: {} as never, attachments: [image] })
+
+    expect(warnings).toEqual(['vision:test-model', 'tools:test-model', 'vision:test-model'])
+    expect(mockStream).toHaveBeenCalledTimes(2)
+    expect(mockStream.mock.calls[0][3].supportsTools).toBe(false)
+    expect(mockStream.mock.calls[0][2].at(-1)).toEqual({ role: 'user', content: 'look' })
+  })
+
+  it('keeps reasoning in its own slice and never speaks it', async () => {
+    const store = useChatStore()
+    const spoken: string[] = []
+    const specials: string[] = []
+    store.onTokenLiteral(async literal => void spoken.push(literal))
+    store.onTokenSpecial(async special => void specials.push(special))
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'reasoning-delta', text: 'The user greets me. ' })
+      await options.onStreamEvent?.({ type: 'text-delta', text: '<thi' })
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'nk>Smile? <|EMOTE_HAPPY|></th' })
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'ink>Hello!' })
+    })
+
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    const reply = store.messages.at(-1) as ChatAssistantMessage
+    expect(reply.slices).toEqual([
+      { type: 'reasoning', text: 'The user greets me. Smile? <|EMOTE_HAPPY|>' },
+      { type: 'text', text: 'Hello!' },
+    ])
+    expect(reply.content).toBe('Hello!')
+    expect(spoken.join('').replaceAll(TTS_FLUSH_INSTRUCTION, '')).toBe('Hello!')
+    expect(specials).toEqual([])
+  })
+
+  it('records token usage on replies, totals it and reports completed replies', async () => {
+    const store = useChatStore()
+    bridge = installChatContextBridge()
+
+    const usage = { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 }
+    mockStream.mockImplementationOnce(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'reported' })
+      // The same step can finish twice, the usage must only be counted once
+      await options.onStreamEvent?.({ type: 'finish', usage })
+      await options.onStreamEvent?.({ type: 'finish', usage })
+    })
+    await store.send('hi', { model: 'test-model', chatProvider: {} as never })
+
+    mockStream.mockImplementationOnce(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'estimated' })
+      await options.onStreamEvent?.({ type: 'finish' })
+    })
+    await store.send('again', { model: 'test-model', chatProvider: {} as never })
+
+    // The bridge echoes the replies back as context updates, those carry no usage
+    const [reported, estimated] = store.messages.filter(message => message.usage)
+    expect(reported.usage).toEqual({ promptTokens: 1000, completionTokens: 500, totalTokens: 1500, source: 'provider-based' })
+    expect(estimated.usage).toMatchObject({ completionTokens: 3, source: 'estimate-based' })
+    expect(store.sessionUsage.total).toMatchObject({ messages: 2, estimatedMessages: 1 })
+    expect(store.sessionUsage.byProvider['test-provider'].cost).toBeGreaterThan(0.002)
+
+    expect(mockSendChatComplete).toHaveBeenCalledWith(expect.objectContaining({
+      message: expect.objectContaining({ role: 'assistant', content: 'reported' }),
+      usage: reported.usage,
+    }))
+  })
+
+  it('manages session metadata and names sessions after the first exchange', async () => {
+    const store = useChatStore()
+    mockStream.mockImplementation(async (_model: string, _provider: unknown, _messages: unknown[], options: StreamOptions) => {
+      await options.onStreamEvent?.({ type: 'text-delta', text: 'hello there' })
+    })
+    mockGenerateSessionTitle.mockResolvedValue('Greetings')
+    const options = { model: 'test-model', chatProvider: {} as never }
+
+    const sessionId = store.createSession()
+    expect(store.activeSessionId).toBe(sessionId)
+
+    await store.send('hi', options)
+    await vi.waitFor(() => expect(store.listSessions().find(session => session.id === sessionId)?.title).toBe('Greetings'))
+    expect(mockGenerateSessionTitle).toHaveBeenCalledWith('test-model', options.chatProvider, [
+      { role: 'user', text: 'hi' },
+      { role: 'assistant', text: 'hello there' },
+    ], {})
+
+    // Only the first exchange is titled
+    await store.send('again', options)
+    expect(mockGenerateSessionTitle).toHaveBeenCalledTimes(1)
+
+    const session = store.listSessions().find(session => session.id === sessionId)
+    expect(session).toMatchObject({ model: 'test-model', cardId: 'default', pinned: false })
+
+    store.renameSession('default', 'Pinned chat')
+    store.pinSession('default')
+    expect(store.listSessions().map(session => session.id)).toEqual(['default', sessionId])
+
+    await store.deleteSession(sessionId)
+    expect(store.listSessions().map(session => session.title)).toEqual(['Pinned chat'])
+    expect(store.activeSessionId).toBe('default')
+    expect(indexedDBMap.has(sessionId)).toBe(false)
+  })
 })
@@ -1,175 +1,383 @@
 import type { ContextMessage, ContextSource } from '@proj-airi/server-sdk'
-import type { ChatProvider } from '@xsai-ext/shared-providers'
-import type { CommonContentPart, Message, SystemMessage } from '@xsai/shared-chat'
-
-import type { StreamEvent, StreamOptions } from '../stores/llm'
-import type { ChatAssistantMessage, ChatMessage, ChatSlices } from '../types/chat'
+import type { ChatProvider, TranscriptionProviderWithExtraOptions } from '@xsai-ext/shared-providers'
+import type { Message, SystemMessage, UserMessage } from '@xsai/shared-chat'
+
+import type { StreamOptions } from '../stores/llm'
+import type { ChatAssistantMessage, ChatAttachmentMeta, ChatErrorInfo, ChatMessage, ChatSlices, ChatSlicesToolCall, ChatToolCallApproval } from '../types/chat'
+import type { EventListenerOptions } from '../utils/event-bus'
+import type { ChatAttachment } from './chat/attachments'
+import type { ChatComparison } from './chat/comparison'
+import type { ContextBudgetReport } from './chat/context-budget'
+import type { ModelTarget } from './chat/failover'
+import type { ChatGroup, GroupMember } from './chat/group'
+import type { ChatHistoryTree } from './chat/history-tree'
+import type { ChatImportSource, ChatSessionBackup, ImportedChatSession } from './chat/importers'
+import type { LorebookReport, LorebookResult } from './chat/lorebook'
+import type { ChatSessionMeta } from './chat/sessions'
+import type { TokenUsage } from './chat/usage'
+import type { ModelCapability } from './model-capabilities'
+import type { AiriCard, AiriExtension } from './modules/airi-card'
+import type { ToolApprovalRequest } from './tools'
 
 import { useLocalStorage } from '@vueuse/core'
+import { nanoid } from 'nanoid'
 import { defineStore, storeToRefs } from 'pinia'
-import { computed, ref, toRaw, watch } from 'vue'
+import { computed, effectScope, markRaw, ref, toRaw, watch } from 'vue'
 
 import { useLlmmarkerParser } from '../composables/llmmarkerParser'
+import { usePipelineCharacterSpeechPlaybackQueueStore } from '../composables/queues'
 import { useLLM } from '../stores/llm'
+import { createEventBus } from '../utils/event-bus'
 import { createQueue } from '../utils/queue'
 import { TTS_FLUSH_INSTRUCTION } from '../utils/tts'
-import { useAiriCardStore } from './modules'
+import { AttachmentError, resolveAttachments } from './chat/attachments'
+import { createComparisonColumn, pickBudgetTarget } from './chat/comparison'
+import { budgetMessages } from './chat/context-budget'
+import { classifyChatError, describeChatError } from './chat/errors'
+import { runWithFailover } from './chat/failover'
+import { buildGroupNote, chooseSpeaker, findMentionedMember, nextMemberInTurn } from './chat/group'
+import { appendEntry, createHistoryTree, getActiveBranch, getActiveBranchSiblings, removeEntry, switchBranch as switchHistoryBranch } from './chat/history-tree'
+import { importAiriSessions } from './chat/importers'
+import { scanLorebook } from './chat/lorebook'
+import { injectHistoryInstructions } from './chat/prompt-builder'
+import { createReplyStream } from './chat/reply-stream'
+import { extractSearchableText } from './chat/search-index'
+import { createIndexedDBChatSessionStorage } from './chat/session-storage'
+import { generateSessionTitle } from './chat/session-title'
+import { compareSessions } from './chat/sessions'
+import { estimateUsage, fromProviderUsage, summarizeUsage } from './chat/usage'
+import { useLlmMarkersStore } from './llm-markers'
+import { useModelCapabilitiesStore } from './model-capabilities'
+import { useAiriCardStore, useConsciousnessStore, useHearingStore } from './modules'
+import { IDLE_CONTEXT_SOURCE } from './modules/idle'
+import { useProvidersStore } from './providers'
+import { useToolsStore } from './tools'
 
 export interface ErrorMessage {
   role: 'error'
   content: string
+  /** How the failure was classified, absent on errors received from other modules */
+  error?: ChatErrorInfo
 }
 
 interface MessageContext {
   sessionId: string
-  source: ContextSource
+  /** Imported messages name the application they came from */
+  source: ContextSource | ChatImportSource | typeof IDLE_CONTEXT_SOURCE
   ts: number
   meta?: Record<string, unknown>
 }
 
-type ChatEntry = (ChatMessage | ErrorMessage) & { context?: MessageContext }
+type ChatEntry = (ChatMessage | ErrorMessage) & {
+  /** Assigned once the entry is stored in a session history tree */
+  id?: string
+  parentId?: string
+  context?: MessageContext
+  /** Token usage of an assistant reply, reported by the provider or estimated */
+  usage?: TokenUsage
+  /** Files attached to a user message, their content is part of the message content */
+  attachments?: ChatAttachmentMeta[]
+}
 export type { ChatEntry }
 
+export interface SendOptions {
+  model: string
+  chatProvider: ChatProvider
+  providerConfig?: Record<string, unknown>
+  attachments?: ChatAttachment[]
+  tools?: StreamOptions['tools']
+}
+
+/**
+ * Turn the character takes without a user message.
+ */
+interface UnpromptedTurn {
+  /** Given to the model for this reply only, it is not stored in the history */
+  instruction: string
+  source: MessageContext['source']
+}
+
+/**
+ * How a reply is taken, when it is not the plain answer of the active card to the user.
+ */
+interface ReplyOptions {
+  unprompted?: UnpromptedTurn
+  /** Card that should reply in a group session, as long as it is still a member */
+  speakerId?: string
+}
+
+/**
+ * Card replying in a group session.
+ */
+interface GroupTurn {
+  speakerId: string
+  card: AiriCard
+  /** Names of the members by card id, the speaker included */
+  names: Record<string, string>
+}
+
+/**
+ * Card taking its turn in a group session, as announced to the speech and caption hooks.
+ */
+export interface ChatSpeaker {
+  cardId: string
+  name: string
+  /** Voice of the card, the active voice is used when absent */
+  speech?: AiriExtension['modules']['speech']
+}
+
+interface UserTurn {
+  /** Id of the entry the turn is stored as, generated when absent */
+  id?: string
+  content: UserMessage['content']
+  attachments?: ChatAttachmentMeta[]
+}
+
 export interface ContextPayload {
   content?: unknown
   slices?: ChatSlices[]
   tool_results?: ChatAssistantMessage['tool_results']
   text?: string
+  attachments?: ChatAttachmentMeta[]
+}
+
+export interface BeforeComposePayload {
+  /** Card replying, set in group sessions only */
+  speaker?: ChatSpeaker
+}
+
+/**
+ * What went into the composed messages, reported once they are composed.
+ */
+export interface ComposeReport {
+  /** How the history was trimmed to fit the context window, absent when the window size is unknown */
+  budget?: ContextBudgetReport
+  /** Lorebook entries of the replying card triggered by the latest messages */
+  lorebook?: LorebookReport
 }
 
 export type ChatStreamEvent
-  = | { type: 'before-compose', message: string, sessionId: string }
+  = | { type: 'before-compose', message: string, sessionId: string, payload?: BeforeComposePayload }
     | { type: 'after-compose', message: string, sessionId: string }
     | { type: 'before-send', message: string, sessionId: string }
     | { type: 'after-send', message: string, sessionId: string }
     | { type: 'token-literal', literal: string, sessionId: string }
     | { type: 'token-special', special: string, sessionId: string }
     | { type: 'stream-end', sessionId: string }
+    | { type: 'stream-aborted', sessionId: string }
     | { type: 'assistant-end', message: string, sessionId: string }
 
-const CHAT_STORAGE_KEY = 'chat/messages/v2'
+export type ContextOrigin = 'local' | 'ws' | 'broadcast'
+
+/**
+ * Every event of the chat store, the `ChatStreamEvent` ones are also mirrored to the other windows.
+ */
+export type ChatEvent
+  = | ChatStreamEvent
+    | { type: 'chat-complete', message: ChatAssistantMessage, usage: TokenUsage, sessionId: string }
+    | { type: 'capability-warning', capability: ModelCapability, model: string, sessionId: string }
+    | { type: 'compose-report', message: string, report: ComposeReport, sessionId: string }
+    | { type: 'context-publish', envelope: ContextMessage<ContextPayload>, origin: ContextOrigin }
+
+// Sessions used to be kept in localStorage, first as flat lists (v2) and then as history trees (v3)
+const LEGACY_FLAT_CHAT_STORAGE_KEY = 'chat/messages/v2'
+const LEGACY_TREE_CHAT_STORAGE_KEY = 'chat/sessions/v3'
 const ACTIVE_SESSION_STORAGE_KEY = 'chat/active-session'
+const SESSION_META_STORAGE_KEY = 'chat/session-meta'
+const AUTO_TITLE_STORAGE_KEY = 'settings/chat/auto-title'
+const INCLUDE_ERRORS_STORAGE_KEY = 'settings/chat/include-errors-in-prompt'
 export const CONTEXT_CHANNEL_NAME = 'airi-context-update'
 export const CHAT_STREAM_CHANNEL_NAME = 'airi-chat-stream'
 
 export const useChatStore = defineStore('chat', () => {
-  const { stream, discoverToolsCompatibility } = useLLM()
-  const { systemPrompt } = storeToRefs(useAiriCardStore())
+  const { stream } = useLLM()
+  const airiCardStore = useAiriCardStore()
+  const { systemPrompt, activeCardId } = storeToRefs(airiCardStore)
+  const consciousnessStore = useConsciousnessStore()
+  const toolsStore = useToolsStore()
+  const capabilitiesStore = useModelCapabilitiesStore()
+  const llmMarkersStore = useLlmMarkersStore()
 
   const activeSessionId = useLocalStorage<string>(ACTIVE_SESSION_STORAGE_KEY, 'default')
-  const sessionMessages = useLocalStorage<Record<string, ChatEntry[]>>(CHAT_STORAGE_KEY, {})
+  // Metadata of every session, loaded or not, small enough to stay in localStorage
+  const sessionMetas = useLocalStorage<Record<string, ChatSessionMeta>>(SESSION_META_STORAGE_KEY, {})
+  // Names untitled sessions with a background LLM call after their first exchange
+  const autoTitle = useLocalStorage<boolean>(AUTO_TITLE_STORAGE_KEY, true)
+  // Failed requests stay out of the prompt unless asked for, they only describe what went wrong to the user
+  const includeErrorsInPrompt = useLocalStorage<boolean>(INCLUDE_ERRORS_STORAGE_KEY, false)
+  // Sessions loaded into memory, the others stay in IndexedDB until they are opened
+  const sessionHistories = ref<Record<string, ChatHistoryTree>>({})
+  const chatSessionStorage = createIndexedDBChatSessionStorage()
+  const sessionLoads = new Map<string, Promise<ChatHistoryTree>>()
+  // Sessions that could not be read from storage, they are kept in memory only until a retry succeeds
+  const sessionLoadErrors = ref<Record<string, string>>({})
+  // Watchers writing loaded sessions back to storage, they live in their own scope so they can be dropped on reset
+  let persistScope = effectScope()
+  const sessionPersistStops = new Map<string, () => void>()
+  // Bumped whenever the stored sessions are replaced, so loads started before that are discarded
+  let storageGeneration = 0
+
+  // One-time move of the sessions kept in localStorage into per-session IndexedDB records
+  async function migrateLegacySessions() {
+    const flatSessions = useLocalStorage<Record<string, ChatEntry[]> | null>(LEGACY_FLAT_CHAT_STORAGE_KEY, {}, { writeDefaults: false })
+    const treeSessions = useLocalStorage<Record<string, ChatHistoryTree> | null>(LEGACY_TREE_CHAT_STORAGE_KEY, {}, { writeDefaults: false })
+
+    const legacyHistories: Record<string, ChatHistoryTree> = { ...treeSessions.value }
+    for (const [sessionId, history] of Object.entries(flatSessions.value ?? {}))
+      legacyHistories[sessionId] ??= createHistoryTree(history)
+
+    if (Object.keys(legacyHistories).length === 0)
+      return
+
+    try {
+      for (const [sessionId, tree] of Object.entries(legacyHistories)) {
+        if (!await chatSessionStorage.loadSession(sessionId))
+          await chatSessionStorage.saveSession(sessionId, JSON.parse(JSON.stringify(tree)))
+      }
+
+      flatSessions.value = null
+      treeSessions.value = null
+    }
+    catch (error) {
+      console.error('Failed to migrate chat sessions to IndexedDB:', error)
+    }
+  }
+
+  const legacyMigration = migrateLegacySessions()
+
+  // Sessions stored before metadata existed still show up in the session list
+  legacyMigration
+    .then(() => chatSessionStorage.listSessionIds())
+    .then((sessionIds) => {
+      for (const sessionId of sessionIds)
+        ensureSessionMeta(sessionId)
+    })
+    .catch(error => console.error('Failed to list chat sessions:', error))
 
   const sending = ref(false)
+  // Replies of the models being compared, until one of them is kept
+  const comparison = ref<ChatComparison>()
+  // Kept in the store state so the entries triggered by the last send can be inspected from devtools
+  const lastLorebookReport = ref<LorebookReport>()
+  // In-flight generations, keyed by the session they were started from
+  const streamAbortControllers = new Map<string, AbortController>()
+  // Target each failed request was last sent to, so the error entry can point at the right provider
+  const failedTargets = new WeakMap<object, ModelTarget>()
 
   // ----- Hooks (UI callbacks) -----
-  const onBeforeMessageComposedHooks = ref<Array<(message: string) => Promise<void>>>([])
-  const onAfterMessageComposedHooks = ref<Array<(message: string) => Promise<void>>>([])
-  const onBeforeSendHooks = ref<Array<(message: string) => Promise<void>>>([])
-  const onAfterSendHooks = ref<Array<(message: string) => Promise<void>>>([])
-  const onTokenLiteralHooks = ref<Array<(literal: string) => Promise<void>>>([])
-  const onTokenSpecialHooks = ref<Array<(special: string) => Promise<void>>>([])
-  const onStreamEndHooks = ref<Array<() => Promise<void>>>([])
-  const onAssistantResponseEndHooks = ref<Array<(message: string) => Promise<void>>>([])
-  const onContextPublishHooks = ref<Array<(envelope: ContextMessage<ContextPayload>, origin: 'local' | 'ws' | 'broadcast') => Promise<void> | void>>([])
+  // Listeners of every chat event, a throwing listener is reported and skipped instead of failing the send
+  const events = markRaw(createEventBus<ChatEvent>())
 
-  function onBeforeMessageComposed(cb: (message: string) => Promise<void>) {
-    onBeforeMessageComposedHooks.value.push(cb)
-    return () => onBeforeMessageComposedHooks.value = onBeforeMessageComposedHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onBeforeMessageComposed(cb: (message: string, payload?: BeforeComposePayload) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('before-compose', event => cb(event.message, event.payload), options)
   }
 
-  function onAfterMessageComposed(cb: (message: string) => Promise<void>) {
-    onAfterMessageComposedHooks.value.push(cb)
-    return () => onAfterMessageComposedHooks.value = onAfterMessageComposedHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  /**
+   * Called with the context budget and lorebook reports once the messages of a reply are composed,
+   * after the `before-compose` listeners ran.
+   */
+  function onComposeReport(cb: (message: string, report: ComposeReport) => Promise<void> | void, options?: EventListenerOptions) {
+    return events.on('compose-report', event => cb(event.message, event.report), options)
   }
 
-  function onBeforeSend(cb: (message: string) => Promise<void>) {
-    onBeforeSendHooks.value.push(cb)
-    return () => onBeforeSendHooks.value = onBeforeSendHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onAfterMessageComposed(cb: (message: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('after-compose', event => cb(event.message), options)
   }
 
-  function onAfterSend(cb: (message: string) => Promise<void>) {
-    onAfterSendHooks.value.push(cb)
-    return () => onAfterSendHooks.value = onAfterSendHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onBeforeSend(cb: (message: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('before-send', event => cb(event.message), options)
   }
 
-  function onTokenLiteral(cb: (literal: string) => Promise<void>) {
-    onTokenLiteralHooks.value.push(cb)
-    return () => onTokenLiteralHooks.value = onTokenLiteralHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onAfterSend(cb: (message: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('after-send', event => cb(event.message), options)
   }
 
-  function onTokenSpecial(cb: (special: string) => Promise<void>) {
-    onTokenSpecialHooks.value.push(cb)
-    return () => onTokenSpecialHooks.value = onTokenSpecialHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onTokenLiteral(cb: (literal: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('token-literal', event => cb(event.literal), options)
   }
 
-  function onStreamEnd(cb: () => Promise<void>) {
-    onStreamEndHooks.value.push(cb)
-    return () => onStreamEndHooks.value = onStreamEndHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onTokenSpecial(cb: (special: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('token-special', event => cb(event.special), options)
   }
 
-  function onAssistantResponseEnd(cb: (message: string) => Promise<void>) {
-    onAssistantResponseEndHooks.value.push(cb)
-    return () => onAssistantResponseEndHooks.value = onAssistantResponseEndHooks.value.filter(hook => hook !== cb) // return remove listener callback
+  function onStreamEnd(cb: () => Promise<void>, options?: EventListenerOptions) {
+    return events.on('stream-end', () => cb(), options)
   }
 
-  function onContextPublish(cb: (envelope: ContextMessage<ContextPayload>, origin: 'local' | 'ws' | 'broadcast') => Promise<void> | void) {
-    onContextPublishHooks.value.push(cb)
+  function onStreamAborted(cb: () => Promise<void>, options?: EventListenerOptions) {
+    return events.on('stream-aborted', () => cb(), options)
+  }
 
-    return () => {
-      onContextPublishHooks.value = onContextPublishHooks.value.filter(hook => hook !== cb)
-    }
+  function onAssistantResponseEnd(cb: (message: string) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('assistant-end', event => cb(event.message), options)
+  }
+
+  function onChatComplete(cb: (message: ChatAssistantMessage, usage: TokenUsage) => Promise<void>, options?: EventListenerOptions) {
+    return events.on('chat-complete', event => cb(event.message, event.usage), options)
+  }
+
+  /**
+   * Called when a message asks for something the model is known not to support, e.g. images sent
+   * to a text only model. The message is still sent, without the unsupported part.
+   */
+  function onCapabilityWarning(cb: (capability: ModelCapability, model: string) => Promise<void> | void, options?: EventListenerOptions) {
+    return events.on('capability-warning', event => cb(event.capability, event.model), options)
+  }
+
+  function onContextPublish(cb: (envelope: ContextMessage<ContextPayload>, origin: ContextOrigin) => Promise<void> | void, options?: EventListenerOptions) {
+    return events.on('context-publish', event => cb(event.envelope, event.origin), options)
   }
 
   function clearHooks() {
-    onBeforeMessageComposedHooks.value = []
-    onAfterMessageComposedHooks.value = []
-    onBeforeSendHooks.value = []
-    onAfterSendHooks.value = []
-    onTokenLiteralHooks.value = []
-    onTokenSpecialHooks.value = []
-    onStreamEndHooks.value = []
-    onAssistantResponseEndHooks.value = []
-    onContextPublishHooks.value = []
+    events.clear()
   }
 
-  async function emitBeforeMessageComposedHooks(message: string) {
-    for (const hook of onBeforeMessageComposedHooks.value)
-      await hook(message)
+  async function emitBeforeMessageComposedHooks(message: string, payload?: BeforeComposePayload) {
+    await events.emit({ type: 'before-compose', message, sessionId: activeSessionId.value, payload })
+  }
+
+  async function emitComposeReportHooks(message: string, report: ComposeReport) {
+    await events.emit({ type: 'compose-report', message, report, sessionId: activeSessionId.value })
   }
 
   async function emitAfterMessageComposedHooks(message: string) {
-    for (const hook of onAfterMessageComposedHooks.value)
-      await hook(message)
+    await events.emit({ type: 'after-compose', message, sessionId: activeSessionId.value })
   }
 
   async function emitBeforeSendHooks(message: string) {
-    for (const hook of onBeforeSendHooks.value)
-      await hook(message)
+    await events.emit({ type: 'before-send', message, sessionId: activeSessionId.value })
   }
 
   async function emitAfterSendHooks(message: string) {
-    for (const hook of onAfterSendHooks.value)
-      await hook(message)
+    await events.emit({ type: 'after-send', message, sessionId: activeSessionId.value })
   }
 
   async function emitTokenLiteralHooks(literal: string) {
-    for (const hook of onTokenLiteralHooks.value)
-      await hook(literal)
+    await events.emit({ type: 'token-literal', literal, sessionId: activeSessionId.value })
   }
 
   async function emitTokenSpecialHooks(special: string) {
-    for (const hook of onTokenSpecialHooks.value)
-      await hook(special)
+    await events.emit({ type: 'token-special', special, sessionId: activeSessionId.value })
   }
 
   async function emitStreamEndHooks() {
-    for (const hook of onStreamEndHooks.value)
-      await hook()
+    await events.emit({ type: 'stream-end', sessionId: activeSessionId.value })
+  }
+
+  async function emitStreamAbortedHooks() {
+    await events.emit({ type: 'stream-aborted', sessionId: activeSessionId.value })
   }
 
   async function emitAssistantResponseEndHooks(message: string) {
-    for (const hook of onAssistantResponseEndHooks.value)
-      await hook(message)
+    await events.emit({ type: 'assistant-end', message, sessionId: activeSessionId.value })
+  }
+
+  async function emitChatCompleteHooks(message: ChatAssistantMessage, usage: TokenUsage) {
+    await events.emit({ type: 'chat-complete', message, usage, sessionId: activeSessionId.value })
+  }
+
+  async function emitCapabilityWarningHooks(capability: ModelCapability, model: string) {
+    await events.emit({ type: 'capability-warning', capability, model, sessionId: activeSessionId.value })
   }
 
   // ----- Session state helpers -----
@@ -177,87 +385,641 @@ export const useChatStore = defineStore('chat', () => {
   const codeBlockSystemPrompt = '- For any programming code block, always specify the programming language that supported on @shikijs/rehype on the rendered markdown, eg. ```python ... ```\n'
   const mathSyntaxSystemPrompt = '- For any math equation, use LaTeX format, eg: $ x^3 $, always escape dollar sign outside math equation\n'
 
-  function generateInitialMessage() {
-    // TODO: compose, replace {{ user }} tag, etc
+  // Macros are kept in the stored prompt and expanded when composing, so {{time}} and the like stay current
+  function generateInitialMessage(lorebook?: LorebookResult, card?: AiriCard) {
     return {
       role: 'system',
-      content: codeBlockSystemPrompt + mathSyntaxSystemPrompt + systemPrompt.value,
+      content: codeBlockSystemPrompt + mathSyntaxSystemPrompt + (lorebook || card ? airiCardStore.composeSystemPrompt(lorebook, card) : systemPrompt.value),
     } satisfies SystemMessage
   }
 
-  function ensureSession(sessionId: string) {
-    if (!sessionMessages.value[sessionId] || sessionMessages.value[sessionId].length === 0) {
-      sessionMessages.value[sessionId] = [{
-        ...generateInitialMessage(),
-        context: {
-          sessionId,
-          source: 'system',
-          ts: Date.now(),
-        },
-      }]
+  function generateInitialEntry(sessionId: string): ChatEntry {
+    return {
+      ...generateInitialMessage(),
+      context: {
+        sessionId,
+        source: 'system',
+        ts: Date.now(),
+      },
+    }
+  }
+
+  function refreshSystemPrompt(sessionId: string) {
+    const tree = sessionHistories.value[sessionId]
+    for (const entry of Object.values(tree?.entries ?? {})) {
+      if (!entry.parentId && entry.role === 'system')
+        tree.entries[entry.id] = { ...generateInitialEntry(sessionId), id: entry.id }
+    }
+  }
+
+  function persistSession(sessionId: string) {
+    persistScope.run(() => {
+      const stop = watch(() => sessionHistories.value[sessionId], (tree) => {
+        if (!tree)
+          return
+
+        chatSessionStorage.saveSession(sessionId, JSON.parse(JSON.stringify(tree)))
+          .catch(error => console.error('Failed to save chat session:', error))
+      }, { deep: true, immediate: true })
+
+      sessionPersistStops.set(sessionId, stop)
+    })
+  }
+
+  /**
+   * Reads a session from storage into memory, once per session.
+   * Messages added to the session while it was loading are kept on top of the stored history.
+   */
+  function loadSession(sessionId: string) {
+    const pendingLoad = sessionLoads.get(sessionId)
+    if (pendingLoad)
+      return pendingLoad
+
+    const generation = storageGeneration
+    const load = (async () => {
+      await legacyMigration
+
+      let stored: ChatHistoryTree | null
+      try {
+        stored = await chatSessionStorage.loadSession(sessionId)
+      }
+      catch (error) {
+        console.error('Failed to load chat session:', error)
+        if (generation === storageGeneration)
+          sessionLoadErrors.value = { ...sessionLoadErrors.value, [sessionId]: error instanceof Error ? error.message : String(error) }
+
+        // Neither greeted nor persisted, saving the placeholder would overwrite the stored history
+        return ensureSession(sessionId)
+      }
+
+      if (generation !== storageGeneration)
+        return ensureSession(sessionId)
+
+      if (stored && Object.keys(stored.entries).length > 0) {
+        // The placeholder only holds the initial system prompt plus whatever arrived in the meantime
+        const placeholder = sessionHistories.value[sessionId]
+        for (const entry of placeholder ? getActiveBranch(placeholder).slice(1) : [])
+          appendEntry(stored, toRaw(entry))
+
+        sessionHistories.value[sessionId] = stored
+        refreshSystemPrompt(sessionId)
+      }
+      else if (getActiveBranch(ensureSession(sessionId)).length === 1) {
+        // A brand new session, nothing was stored and nothing was sent yet
+        void appendGreeting(sessionId)
+      }
+
+      persistSession(sessionId)
+      return ensureSession(sessionId)
+    })()
+
+    sessionLoads.set(sessionId, load)
+    return load
+  }
+
+  /**
+   * Reads a session whose load failed from storage again.
+   */
+  function retrySessionLoad(sessionId: string) {
+    const { [sessionId]: _, ...others } = sessionLoadErrors.value
+    sessionLoadErrors.value = others
+    sessionLoads.delete(sessionId)
+    return loadSession(sessionId)
+  }
+
+  function ensureSessionMeta(sessionId: string) {
+    if (!sessionMetas.value[sessionId]) {
+      const now = Date.now()
+      sessionMetas.value[sessionId] = {
+        id: sessionId,
+        title: '',
+        createdAt: now,
+        updatedAt: now,
+        pinned: false,
+        cardId: activeCardId.value,
+      }
     }
+
+    return sessionMetas.value[sessionId]
+  }
+
+  // Every live session has metadata, a generation that outlived its session must not bring it back
+  function isDeletedSession(sessionId: string) {
+    return !sessionMetas.value[sessionId]
+  }
+
+  function ensureSession(sessionId: string) {
+    ensureSessionMeta(sessionId)
+
+    const tree = sessionHistories.value[sessionId]
+    if (!tree || Object.keys(tree.entries).length === 0)
+      sessionHistories.value[sessionId] = createHistoryTree([generateInitialEntry(sessionId)])
+
+    if (!sessionLoads.has(sessionId))
+      void loadSession(sessionId)
+
+    return sessionHistories.value[sessionId]
+  }
+
+  /**
+   * Forgets every loaded session and stops writing them back, before the stored sessions are replaced.
+   */
+  function detachSessions() {
+    storageGeneration++
+    persistScope.stop()
+    persistScope = effectScope()
+    sessionPersistStops.clear()
+    sessionLoads.clear()
+    sessionLoadErrors.value = {}
+    sessionHistories.value = {}
   }
 
   ensureSession(activeSessionId.value)
 
+  // The active branch of the active session, this is what gets rendered and sent to the LLM
   const messages = computed<ChatEntry[]>({
-    get: () => {
-      ensureSession(activeSessionId.value)
-      return sessionMessages.value[activeSessionId.value]
-    },
+    get: () => getActiveBranch(ensureSession(activeSessionId.value)),
+    // NOTICE: assigning replaces the whole session history, alternate branches included
     set: (value) => {
-      sessionMessages.value[activeSessionId.value] = value
+      sessionHistories.value[activeSessionId.value] = createHistoryTree(value)
     },
   })
 
+  // Sibling position of every entry in `messages`, for "2/3" style branch navigation
+  const messageBranches = computed(() => getActiveBranchSiblings(ensureSession(activeSessionId.value)))
+
+  // Token usage and cost of the active session, alternate branches included
+  const sessionUsage = computed(() => summarizeUsage(Object.values(ensureSession(activeSessionId.value).entries), consciousnessStore.modelPrices))
+
   function setActiveSession(sessionId: string) {
     activeSessionId.value = sessionId
     ensureSession(sessionId)
   }
 
+  /**
+   * Active branch of any session, loading it first when needed.
+   */
+  async function getSessionMessages(sessionId: string): Promise<ChatEntry[]> {
+    return getActiveBranch(await loadSession(sessionId))
+  }
+
   function cleanupMessages(sessionId = activeSessionId.value) {
-    sessionMessages.value[sessionId] = [{
-      ...generateInitialMessage(),
-      context: {
-        sessionId,
-        source: 'system',
-        ts: Date.now(),
-      },
-    }]
+    sessionHistories.value[sessionId] = createHistoryTree([generateInitialEntry(sessionId)])
+    void appendGreeting(sessionId)
+  }
+
+  function appendMessage(entry: ChatEntry, sessionId = activeSessionId.value) {
+    const node = appendEntry(ensureSession(sessionId), entry)
+    ensureSessionMeta(sessionId).updatedAt = Date.now()
+
+    return node
+  }
+
+  /**
+   * Removes the message at `messageIndex` of the active branch, along with every reply that followed it.
+   */
+  function removeMessage(messageIndex: number, sessionId = activeSessionId.value) {
+    const tree = ensureSession(sessionId)
+    const entry = getActiveBranch(tree)[messageIndex]
+    if (entry)
+      removeEntry(tree, entry.id)
+  }
+
+  /**
+   * Records a failed request as an error entry, classified so the UI can suggest a fix.
+   */
+  function appendError(error: unknown, sessionId = activeSessionId.value) {
+    const target = error && typeof error === 'object' ? failedTargets.get(error) : undefined
+    const { info, message } = classifyChatError(error, target)
+
+    return appendMessage({ role: 'error', content: message, error: info }, sessionId)
+  }
+
+  /**
+   * Activates the branch going through `entryId`.
+   *
+   * @returns whether the branch was switched, it is refused while the session is generating.
+   */
+  function switchBranch(entryId: string, sessionId = activeSessionId.value) {
+    if (streamAbortControllers.has(sessionId))
+      return false
+
+    return switchHistoryBranch(ensureSession(sessionId), entryId)
+  }
+
+  // ----- Group sessions -----
+  function getCardName(card: AiriCard) {
+    return card.nickname || card.name
+  }
+
+  // Members whose card was deleted are skipped, they can't reply anymore
+  function getGroupMembers(group: ChatGroup): (GroupMember & { card: AiriCard })[] {
+    return group.members.flatMap((id) => {
+      const card = airiCardStore.getCard(id)
+      return card ? [{ id, card, names: [...new Set([getCardName(card), card.name].filter(Boolean))] }] : []
+    })
+  }
+
+  function toChatSpeaker(cardId: string, card: AiriCard): ChatSpeaker {
+    return { cardId, name: getCardName(card), speech: card.extensions?.airi?.modules?.speech }
+  }
+
+  function getSpeakerId(entry: ChatEntry | undefined) {
+    const cardId = entry?.role === 'assistant' ? entry.context?.meta?.cardId : undefined
+    return typeof cardId === 'string' ? cardId : undefined
+  }
+
+  /**
+   * Picks the member replying next in a group session, following its turn order.
+   * `options` lets the model choose when the turn order asks for it, without them the next member in turn replies.
+   *
+   * @returns `undefined` outside of group sessions, or when no member card is left.
+   */
+  async function resolveGroupTurn(sessionId: string, entries: ChatEntry[], options?: SendOptions, preferredId?: string, abortSignal?: AbortSignal): Promise<GroupTurn | undefined> {
+    const group = sessionMetas.value[sessionId]?.group
+    const members = group ? getGroupMembers(group) : []
+    if (!group || members.length === 0)
+      return undefined
+
+    const lastEntry = entries.findLast(entry => entry.role === 'user' || entry.role === 'assistant')
+    const lastSpeakerId = getSpeakerId(entries.findLast(entry => getSpeakerId(entry)))
+    const inTurn = nextMemberInTurn(members.map(member => member.id), lastSpeakerId)
+
+    let speakerId = members.find(member => member.id === preferredId)?.id
+    if (!speakerId && group.turnOrder === 'mentioned' && lastEntry) {
+      // A member mentioning its own name doesn't hand the turn to itself
+      const candidates = members.filter(member => member.id !== getSpeakerId(lastEntry))
+      speakerId = findMentionedMember(extractText(lastEntry.content), candidates)
+    }
+    else if (!speakerId && group.turnOrder === 'llm' && options && members.length > 1) {
+      const userName = airiCardStore.renderTemplate('{{user}}')
+      const names = Object.fromEntries(members.map(member => [member.id, member.names[0]]))
+      const transcript = entries
+        .filter(entry => entry.role === 'user' || entry.role === 'assistant')
+        .slice(-10)
+        .map(entry => ({ name: names[getSpeakerId(entry) ?? ''] ?? (entry.role === 'user' ? userName : ''), text: extractText(entry.content) }))
+
+      try {
+        const headers = (options.providerConfig?.headers || {}) as Record<string, string>
+        speakerId = await chooseSpeaker(options.model, options.chatProvider, members, transcript, headers, abortSignal)
+      }
+      catch (error) {
+        if (!abortSignal?.aborted)
+          console.warn('Failed to choose the next speaker, the next member in turn replies:', error)
+      }
+    }
+
+    speakerId ??= inTurn
+    const speaker = members.find(member => member.id === speakerId)!
+    return {
+      speakerId,
+      card: speaker.card,
+      names: Object.fromEntries(members.map(member => [member.id, getCardName(member.card)])),
+    }
+  }
+
+  const activeSessionGroup = computed(() => sessionMetas.value[activeSessionId.value]?.group)
+  const activeSessionLoadError = computed(() => sessionLoadErrors.value[activeSessionId.value])
+
+  /**
+   * Turns a session into a group session, or back into a regular one with `undefined`.
+   */
+  function setSessionGroup(group: ChatGroup | undefined, sessionId = activeSessionId.value) {
+    const meta = ensureSessionMeta(sessionId)
+    if (group)
+      meta.group = { members: [...new Set(group.members)], turnOrder: group.turnOrder }
+    else
+      delete meta.group
+  }
+
+  // ----- Greetings -----
+  /**
+   * Card a session opens with: the active card, or the first member of a group session.
+   */
+  function getGreetingCard(sessionId: string) {
+    const group = sessionMetas.value[sessionId]?.group
+    const cardId = group ? getGroupMembers(group)[0]?.id : activeCardId.value
+    return cardId ? { cardId, card: group ? airiCardStore.getCard(cardId) : airiCardStore.activeCard } : undefined
+  }
+
+  // Group sessions also offer the greetings the card reserves for groups
+  function getCardGreetings(sessionId: string) {
+    const card = getGreetingCard(sessionId)?.card
+    const greetings = sessionMetas.value[sessionId]?.group
+      ? [...card?.greetings ?? [], ...card?.greetingsGroupOnly ?? []]
+      : card?.greetings ?? []
+
+    return greetings.filter(greeting => greeting.trim())
+  }
+
+  function createGreetingEntry(sessionId: string, greetingIndex: number): ChatEntry {
+    const { cardId, card } = getGreetingCard(sessionId) ?? {}
+    const text = airiCardStore.renderTemplate(getCardGreetings(sessionId)[greetingIndex], {}, card)
+    return {
+      role: 'assistant',
+      content: text,
+      slices: [{ type: 'text', text }],
+      tool_results: [],
+      context: { sessionId, source: 'system', ts: Date.now(), meta: { greeting: greetingIndex, cardId } },
+    }
+  }
+
+  // Only group sessions announce who speaks, the voice of a single card is the active voice
+  function getGreetingSpeaker(sessionId: string) {
+    const greetingCard = getGreetingCard(sessionId)
+    return sessionMetas.value[sessionId]?.group && greetingCard?.card
+      ? toChatSpeaker(greetingCard.cardId, greetingCard.card)
+      : undefined
+  }
+
+  /**
+   * The greeting a session opens with, as long as the user has not replied to it.
+   */
+  function findPendingGreeting(sessionId: string) {
+    const branch = getActiveBranch(ensureSession(sessionId))
+    const entry = branch.at(-1)
+    const greetingIndex = entry?.context?.meta?.greeting
+    if (branch.length !== 2 || entry?.role !== 'assistant' || typeof greetingIndex !== 'number')
+      return undefined
+
+    return { entry, greetingIndex }
+  }
+
+  /**
+   * Sends a message that did not come from the LLM through the same speech and emotion hooks a reply goes through.
+   */
+  async function speakMessage(text: string, speaker?: ChatSpeaker) {
+    await emitBeforeMessageComposedHooks(text, speaker ? { speaker } : undefined)
+
+    const parser = useLlmmarkerParser({
+      onLiteral: emitTokenLiteralHooks,
+      onSpecial: emitTokenSpecialHooks,
+    })
+    await parser.consume(text)
+    await parser.end()
+
+    await emitTokenLiteralHooks(`${TTS_FLUSH_INSTRUCTION}${TTS_FLUSH_INSTRUCTION}`)
+    await emitStreamEndHooks()
+    await emitAssistantResponseEndHooks(text)
+  }
+
+  /**
+   * Opens a fresh session with the first greeting of the active card, if it has any.
+   */
+  async function appendGreeting(sessionId: string) {
+    if (getCardGreetings(sessionId).length === 0)
+      return
+
+    const entry = createGreetingEntry(sessionId, 0)
+    appendMessage(entry, sessionId)
+
+    if (sessionId === activeSessionId.value)
+      await speakMessage(extractText(entry.content), getGreetingSpeaker(sessionId))
+  }
+
+  // Alternate greetings of the active session, offered until the user sends the first message
+  const greetingSwipe = computed(() => {
+    const greeting = findPendingGreeting(activeSessionId.value)
+    if (!greeting)
+      return undefined
+
+    return { index: greeting.greetingIndex, total: getCardGreetings(activeSessionId.value).length }
+  })
+
+  /**
+   * Replaces the greeting of a session that has not started yet with the previous or next alternate greeting.
+   *
+   * @returns whether the greeting was swapped.
+   */
+  async function swipeGreeting(direction: -1 | 1, sessionId = activeSessionId.value) {
+    const greeting = findPendingGreeting(sessionId)
+    const total = getCardGreetings(sessionId).length
+    if (!greeting || total < 2 || streamAbortControllers.has(sessionId))
+      return false
+
+    const entry = createGreetingEntry(sessionId, (greeting.greetingIndex + direction + total) % total)
+    const { id, parentId } = greeting.entry
+    ensureSession(sessionId).entries[id] = { ...entry, id, parentId }
+
+    if (sessionId === activeSessionId.value)
+      await speakMessage(extractText(entry.content), getGreetingSpeaker(sessionId))
+
+    return true
+  }
+
+  /**
+   * Sessions for the session switcher, pinned first and then by last activity.
+   */
+  function listSessions() {
+    return Object.values(sessionMetas.value).sort(compareSessions)
+  }
+
+  /**
+   * Starts an empty session and makes it the active one, a group session when `group` is given.
+   *
+   * @returns the id of the new session.
+   */
+  function createSession(title = '', group?: ChatGroup) {
+    const sessionId = nanoid()
+    ensureSessionMeta(sessionId).title = title.trim()
+    // Set before the session opens, so it greets with the first member
+    if (group)
+      setSessionGroup(group, sessionId)
+    setActiveSession(sessionId)
+
+    return sessionId
+  }
+
+  function renameSession(sessionId: string, title: string) {
+    const meta = sessionMetas.value[sessionId]
+    if (meta)
+      meta.title = title.trim()
+  }
+
+  function pinSession(sessionId: string, pinned = true) {
+    const meta = sessionMetas.value[sessionId]
+    if (meta)
+      meta.pinned = pinned
+  }
+
+  /**
+   * Deletes a session with its whole history. When it was the active one,
+   * the most recent remaining session is opened, or a new one is started.
+   */
+  async function deleteSession(sessionId: string) {
+    abort(sessionId)
+    if (comparison.value?.sessionId === sessionId)
+      comparison.value = undefined
+
+    sessionPersistStops.get(sessionId)?.()
+    sessionPersistStops.delete(sessionId)
+    sessionLoads.delete(sessionId)
+    delete sessionLoadErrors.value[sessionId]
+    delete sessionHistories.value[sessionId]
+    delete sessionMetas.value[sessionId]
+
+    if (activeSessionId.value === sessionId) {
+      const [nextSession] = listSessions()
+      if (nextSession)
+        setActiveSession(nextSession.id)
+      else
+        createSession()
+    }
+
+    await chatSessionStorage.deleteSession(sessionId)
+  }
+
+  /**
+   * Names an untitled session from its first exchange, failures only leave the session untitled.
+   */
+  async function generateTitle(sessionId: string, options: SendOptions) {
+    if (isDeletedSession(sessionId))
+      return
+
+    const exchange = getActiveBranch(ensureSession(sessionId))
+      .filter(entry => entry.role === 'user' || entry.role === 'assistant')
+      .map(entry => ({ role: entry.role as 'user' | 'assistant', text: extractText(entry.content) }))
+
+    try {
+      const headers = (options.providerConfig?.headers || {}) as Record<string, string>
+      const title = await generateSessionTitle(options.model, options.chatProvider, exchange, headers)
+
+      // The user may have named the session while the title was generating
+      const meta = sessionMetas.value[sessionId]
+      if (title && meta && !meta.title)
+        meta.title = title
+    }
+    catch (error) {
+      console.warn('Failed to generate session title:', error)
+    }
   }
 
-  function getAllSessions() {
-    return JSON.parse(JSON.stringify(toRaw(sessionMessages.value))) as Record<string, ChatEntry[]>
+  /**
+   * Active branch of every session, stored ones included, for exporting.
+   */
+  async function getAllSessions() {
+    await legacyMigration
+
+    const sessionIds = new Set([...await chatSessionStorage.listSessionIds(), ...Object.keys(sessionHistories.value)])
+    const sessions: Record<string, ChatEntry[]> = {}
+    for (const sessionId of sessionIds) {
+      const tree = toRaw(sessionHistories.value[sessionId]) ?? await chatSessionStorage.loadSession(sessionId)
+      if (tree)
+        sessions[sessionId] = getActiveBranch(tree)
+    }
+
+    return JSON.parse(JSON.stringify(sessions)) as Record<string, ChatEntry[]>
   }
 
-  function replaceSessions(sessions: Record<string, ChatEntry[]>) {
-    sessionMessages.value = sessions
-    const [firstSessionId] = Object.keys(sessions)
-    if (!sessionMessages.value[activeSessionId.value] && firstSessionId)
-      activeSessionId.value = firstSessionId
+  /**
+   * Every session with all of its branches and its metadata, for a backup that restores them as they were.
+   */
+  async function getSessionBackup(): Promise<ChatSessionBackup> {
+    await legacyMigration
+
+    const sessionIds = new Set([...await chatSessionStorage.listSessionIds(), ...Object.keys(sessionHistories.value)])
+    const sessions: ChatSessionBackup['sessions'] = {}
+    for (const sessionId of sessionIds) {
+      const tree = toRaw(sessionHistories.value[sessionId]) ?? await chatSessionStorage.loadSession(sessionId)
+      if (tree)
+        sessions[sessionId] = { meta: toRaw(ensureSessionMeta(sessionId)), tree }
+    }
+
+    return JSON.parse(JSON.stringify({ version: 2, sessions })) as ChatSessionBackup
+  }
+
+  /**
+   * Usage of every session, stored ones included. Every branch is counted, regenerated replies were paid for too.
+   */
+  async function getUsageSummary() {
+    await legacyMigration
+
+    const sessionIds = new Set([...await chatSessionStorage.listSessionIds(), ...Object.keys(sessionHistories.value)])
+    const entries: ChatEntry[] = []
+    for (const sessionId of sessionIds) {
+      const tree = toRaw(sessionHistories.value[sessionId]) ?? await chatSessionStorage.loadSession(sessionId)
+      if (tree)
+        entries.push(...Object.values(tree.entries))
+    }
+
+    return summarizeUsage(entries, consciousnessStore.modelPrices)
+  }
+
+  /**
+   * Imported histories start under the current system prompt, like every other session.
+   */
+  function withSystemRoot(sessionId: string, tree: ChatHistoryTree): ChatHistoryTree {
+    const roots = Object.values(tree.entries).filter(entry => !entry.parentId)
+    if (roots.length === 1 && roots[0].role === 'system')
+      return tree
+
+    const root = { ...generateInitialEntry(sessionId), id: nanoid() }
+    const entries: ChatHistoryTree['entries'] = { [root.id]: root }
+    for (const entry of Object.values(tree.entries))
+      entries[entry.id] = entry.parentId ? entry : { ...entry, parentId: root.id }
+
+    return { entries, activeLeafId: tree.activeLeafId ?? root.id }
+  }
+
+  /**
+   * Stores imported sessions next to the existing ones, or in place of all of them.
+   * When merging, a session with the id of an existing one overwrites it.
+   */
+  async function importSessions(sessions: ImportedChatSession[], mode: 'merge' | 'replace' = 'merge') {
+    if (mode === 'replace') {
+      // Stop writing before clearing, so no stale session is saved back in between
+      persistScope.stop()
+      await legacyMigration
+      await chatSessionStorage.clear()
+      detachSessions()
+      sessionMetas.value = {}
+    }
+    else {
+      await legacyMigration
+    }
+
+    for (const session of sessions) {
+      abort(session.id)
+      sessionHistories.value[session.id] = withSystemRoot(session.id, session.tree)
+      sessionLoads.set(session.id, Promise.resolve(sessionHistories.value[session.id]))
+      refreshSystemPrompt(session.id)
+
+      const meta = ensureSessionMeta(session.id)
+      meta.title = session.title || meta.title
+      meta.createdAt = session.createdAt
+      meta.updatedAt = session.updatedAt
+      Object.assign(meta, session.meta)
+      if (!sessionPersistStops.has(session.id))
+        persistSession(session.id)
+    }
+
+    const [firstSession] = sessions
+    if (!sessionHistories.value[activeSessionId.value] && firstSession)
+      activeSessionId.value = firstSession.id
 
     ensureSession(activeSessionId.value)
   }
 
-  function resetAllSessions() {
-    sessionMessages.value = {}
+  /**
+   * Restores a backup in place of every session, flat backups of active branches included.
+   */
+  async function replaceSessions(backup: ChatSessionBackup | Record<string, ChatEntry[]>) {
+    await importSessions(importAiriSessions(backup).sessions, 'replace')
+  }
+
+  async function resetAllSessions() {
+    persistScope.stop()
+    await legacyMigration
+    await chatSessionStorage.clear()
+    detachSessions()
+    sessionMetas.value = {}
     activeSessionId.value = 'default'
     ensureSession(activeSessionId.value)
   }
 
   watch(systemPrompt, () => {
-    for (const [sessionId, history] of Object.entries(sessionMessages.value)) {
-      if (history.length > 0 && history[0].role === 'system') {
-        sessionMessages.value[sessionId][0] = {
-          ...generateInitialMessage(),
-          context: {
-            sessionId,
-            source: 'system',
-            ts: Date.now(),
-          },
-        }
-      }
-    }
+    for (const sessionId of Object.keys(sessionHistories.value))
+      refreshSystemPrompt(sessionId)
   }, { immediate: true })
 
   // ----- Context bridge (WS + BroadcastChannel) -----
@@ -286,115 +1048,509 @@ export const useChatStore = defineStore('chat', () => {
       meta: envelope.meta,
     }
 
-    const nextHistory = sessionMessages.value[envelope.sessionId]
-
     if (envelope.role === 'assistant') {
-      nextHistory.push({
+      appendMessage({
         role: 'assistant',
         content,
         slices,
         tool_results,
         context,
-      })
+      }, envelope.sessionId)
     }
     else if (envelope.role === 'error') {
-      nextHistory.push({
+      appendMessage({
         role: 'error',
         content: typeof content === 'string' ? content : JSON.stringify(content),
         context,
-      })
+      }, envelope.sessionId)
     }
     else {
-      nextHistory.push({
+      appendMessage({
         role: envelope.role,
         content,
         context,
-      } as ChatEntry)
+        ...(envelope.payload?.attachments ? { attachments: envelope.payload.attachments } : {}),
+      } as ChatEntry, envelope.sessionId)
     }
   }
 
-  function publishContextMessage(envelope: ContextMessage<ContextPayload>, origin: 'local' | 'ws' | 'broadcast' = 'local') {
-    for (const hook of onContextPublishHooks.value)
-      void hook(envelope, origin)
+  function publishContextMessage(envelope: ContextMessage<ContextPayload>, origin: ContextOrigin = 'local') {
+    void events.emit({ type: 'context-publish', envelope, origin }, { dispatch: 'parallel' })
   }
 
   // ----- Send flow (user -> LLM -> assistant) -----
   const streamingMessage = ref<ChatAssistantMessage>({ role: 'assistant', content: '', slices: [], tool_results: [] })
+  // Member the streaming reply comes from, in group sessions
+  const streamingSpeaker = ref<ChatSpeaker>()
+
+  /**
+   * Reads the attachments into content parts following the text, audio is transcribed and documents are extracted.
+   */
+  async function composeUserTurn(text: string, attachments?: SendOptions['attachments']): Promise<UserTurn> {
+    if (!attachments?.length)
+      return { content: text }
+
+    const { parts, metas } = await resolveAttachments(attachments, {
+      transcribe: transcribeAttachment,
+      extractPdfText: async (file) => {
+        // Loaded on first use, the PDF reader is large and most chats never need it
+        const { extractPdfText } = await import('../libs/documents/pdf')
+        return extractPdfText(file)
+      },
+    })
 
-  async function send(
-    sendingMessage: string,
-    options: {
-      model: string
-      chatProvider: ChatProvider
-      providerConfig?: Record<string, unknown>
-      attachments?: { type: 'image', data: string, mimeType: string }[]
-      tools?: StreamOptions['tools']
-    },
-  ) {
+    return { content: [{ type: 'text', text }, ...parts], attachments: metas }
+  }
+
+  async function transcribeAttachment(file: File) {
+    const hearingStore = useHearingStore()
+    if (!hearingStore.configured)
+      throw new Error('no hearing provider is configured to transcribe audio')
+
+    const providerId = hearingStore.activeTranscriptionProvider
+    const provider = await useProvidersStore().getProviderInstance<TranscriptionProviderWithExtraOptions<string, any>>(providerId)
+    const result = await hearingStore.transcription(providerId, provider, hearingStore.activeTranscriptionModel, file)
+    return result.mode === 'stream' ? await result.text : result.text
+  }
+
+  /**
+   * Like `composeUserTurn`, an attachment that can't be read is recorded as an error entry instead of being sent.
+   */
+  async function composeAttachedUserTurn(text: string, attachments?: SendOptions['attachments']) {
+    try {
+      return await composeUserTurn(text, attachments)
+    }
+    catch (error) {
+      if (!(error instanceof AttachmentError))
+        throw error
+
+      appendError(error)
+      return undefined
+    }
+  }
+
+  function extractText(content: ChatEntry['content']) {
+    if (typeof content === 'string')
+      return content
+
+    return (content ?? [])
+      .map(part => part.type === 'text' ? part.text : '')
+      .join('')
+  }
+
+  /**
+   * Sends a user message with its attachments and generates the reply. When the request fails,
+   * the user message is taken back out of the history before the error is thrown.
+   */
+  async function send(sendingMessage: string, options: SendOptions) {
     if (!sendingMessage && !options.attachments?.length)
       return
-    sending.value = true
 
+    await capabilitiesStore.load()
+    if (options.attachments?.some(attachment => attachment.type === 'image') && capabilitiesStore.supports(options.model, options.chatProvider, 'vision') === false) {
+      await emitCapabilityWarningHooks('vision', options.model)
+      options = { ...options, attachments: options.attachments.filter(attachment => attachment.type !== 'image') }
+      if (!sendingMessage && !options.attachments?.length)
+        return
+    }
+
+    const sessionId = activeSessionId.value
+    const userTurn = await composeAttachedUserTurn(sendingMessage, options.attachments)
+    if (!userTurn)
+      return
+
+    // Known up front, the turn may not have been appended yet when the request fails
+    const entryId = nanoid()
     try {
-      await emitBeforeMessageComposedHooks(sendingMessage)
-
-      const contentParts: CommonContentPart[] = [{ type: 'text', text: sendingMessage }]
-
-      if (options.attachments) {
-        for (const attachment of options.attachments) {
-          if (attachment.type === 'image') {
-            contentParts.push({
-              type: 'image_url',
-              image_url: {
-                url: `data:${attachment.mimeType};base64,${attachment.data}`,
-              },
-            })
-          }
+      await generateReply(sendingMessage, options, { ...userTurn, id: entryId })
+    }
+    catch (error) {
+      const tree = sessionHistories.value[sessionId]
+      if (tree)
+        removeEntry(tree, entryId)
+      throw error
+    }
+  }
+
+  /**
+   * Generates a reply on the branch ending at `leafId`. When no reply comes out of it, because the request failed
+   * or was aborted before any output, the branch that was shown before is shown again instead of one without an answer.
+   */
+  async function generateReplyFrom(sessionId: string, leafId: string | undefined, generate: () => Promise<void>) {
+    const tree = ensureSession(sessionId)
+    const previousLeafId = tree.activeLeafId
+    const previousIds = new Set(Object.keys(tree.entries))
+    tree.activeLeafId = leafId
+
+    try {
+      await generate()
+    }
+    finally {
+      // The tree may have been replaced by a load in the meantime, or deleted with its session
+      const current = sessionHistories.value[sessionId]
+      if (current && !Object.values(current.entries).some(entry => entry.role === 'assistant' && !previousIds.has(entry.id)))
+        current.activeLeafId = previousLeafId
+    }
+  }
+
+  /**
+   * Generates a new reply for the user turn the message at `messageIndex` belongs to.
+   * The previous reply is kept as a sibling branch.
+   */
+  async function regenerate(messageIndex: number, options: SendOptions) {
+    const sessionId = activeSessionId.value
+    if (streamAbortControllers.has(sessionId))
+      return
+
+    const tree = ensureSession(sessionId)
+    const userEntry = getActiveBranch(tree)
+      .slice(0, messageIndex + 1)
+      .findLast(entry => entry.role === 'user')
+    if (!userEntry)
+      return
+
+    // In a group session the same member answers again
+    const speakerId = getSpeakerId(getActiveBranch(tree)[messageIndex])
+    await generateReplyFrom(sessionId, userEntry.id, () => generateReply(extractText(userEntry.content), options, undefined, { speakerId }))
+  }
+
+  /**
+   * Sends an edited copy of the user message at `messageIndex` as a sibling of the original,
+   * the original message and everything after it stay reachable through branch navigation.
+   */
+  async function editAndResend(messageIndex: number, content: string, options: SendOptions) {
+    const sessionId = activeSessionId.value
+    if (streamAbortControllers.has(sessionId))
+      return
+
+    const tree = ensureSession(sessionId)
+    const entry = getActiveBranch(tree)[messageIndex]
+    if (entry?.role !== 'user')
+      return
+
+    // Attachments of the original message are kept, only the text it starts with is replaced
+    const editedContent: UserMessage['content'] = Array.isArray(entry.content)
+      ? [{ type: 'text', text: content }, ...entry.content.slice(entry.content[0]?.type === 'text' ? 1 : 0)]
+      : content
+
+    await generateReplyFrom(sessionId, entry.parentId, () => generateReply(content, options, { content: editedContent, attachments: entry.attachments }))
+  }
+
+  /**
+   * Lets the character speak up on its own, following `instruction` instead of answering a user message.
+   * The reply goes through the same speech pipeline and is published with `source` set to the idle engine.
+   *
+   * @returns whether a reply was requested, `false` while the session is busy.
+   */
+  async function nudge(instruction: string, options: SendOptions) {
+    const sessionId = activeSessionId.value
+    if (streamAbortControllers.has(sessionId))
+      return false
+
+    const lastMessageAt = getActiveBranch(ensureSession(sessionId)).findLast(entry => entry.role !== 'system' && entry.context)?.context?.ts
+    await generateReply('', options, undefined, {
+      unprompted: {
+        instruction: airiCardStore.renderTemplate(instruction, { lastMessageAt }),
+        source: IDLE_CONTEXT_SOURCE,
+      },
+    })
+
+    return true
+  }
+
+  // From the widest scope to the narrowest, as the tools store expects them
+  function getToolOverrides(sessionId: string) {
+    return [airiCardStore.activeCard?.extensions?.airi?.tools, sessionMetas.value[sessionId]?.tools]
+  }
+
+  /**
+   * Tools of the registry enabled for the session, with the card and session overrides applied,
+   * followed by the tools passed by the caller.
+   */
+  function resolveSessionTools(sessionId: string, extraTools: SendOptions['tools']) {
+    return async () => {
+      const extra = typeof extraTools === 'function' ? await extraTools() : extraTools
+      return [
+        ...await toolsStore.resolveTools(getToolOverrides(sessionId), requestToolApproval),
+        ...extra ?? [],
+      ]
+    }
+  }
+
+  // Models already warned about, the warning would otherwise repeat on every message
+  const toolsWarnedModels = new Set<string>()
+
+  /**
+   * Warns once per model when tools are enabled for the session but the model can't call them.
+   */
+  async function warnUnsupportedTools(sessionId: string, model: string) {
+    const overrides = getToolOverrides(sessionId)
+    if (toolsWarnedModels.has(model) || !toolsStore.tools.some(entry => toolsStore.isToolEnabled(entry.name, overrides)))
+      return
+
+    toolsWarnedModels.add(model)
+    await emitCapabilityWarningHooks('tools', model)
+  }
+
+  // Resolvers of the tool calls waiting for the user, keyed by tool call id
+  const pendingToolApprovals = new Map<string, (approved: boolean) => void>()
+
+  function findToolCallSlice(toolCallId: string) {
+    return streamingMessage.value.slices.find((slice): slice is ChatSlicesToolCall => slice.type === 'tool-call' && slice.toolCall.toolCallId === toolCallId)
+  }
+
+  function recordToolApproval(request: ToolApprovalRequest, approval: ChatToolCallApproval) {
+    const slice = findToolCallSlice(request.toolCallId)
+    if (slice) {
+      slice.approval = approval
+      return
+    }
+
+    // NOTICE: xsai only emits `tool-call` once the tool has run, so a call waiting for approval gets its slice here
+    streamingMessage.value.slices.push({
+      type: 'tool-call',
+      toolCall: { toolCallId: request.toolCallId, toolCallType: 'function', toolName: request.name, args: JSON.stringify(request.args) },
+      approval,
+    })
+  }
+
+  async function requestToolApproval(request: ToolApprovalRequest) {
+    if (request.policy === 'deny') {
+      recordToolApproval(request, { policy: 'deny', status: 'denied', decidedAt: Date.now() })
+      return false
+    }
+
+    recordToolApproval(request, { policy: 'ask', status: 'pending' })
+    const approved = await new Promise<boolean>((resolve) => {
+      if (request.abortSignal?.aborted) {
+        resolve(false)
+        return
+      }
+
+      pendingToolApprovals.set(request.toolCallId, resolve)
+      request.abortSignal?.addEventListener('abort', () => resolve(false), { once: true })
+    })
+    pendingToolApprovals.delete(request.toolCallId)
+
+    recordToolApproval(request, { policy: 'ask', status: approved ? 'approved' : 'denied', decidedAt: Date.now() })
+    return approved
+  }
+
+  /**
+   * Answers a tool call waiting for approval, a denial is handed back to the model as the tool result.
+   *
+   * @returns false when no call with this id is waiting.
+   */
+  function decideToolCall(toolCallId: string, approved: boolean) {
+    const resolve = pendingToolApprovals.get(toolCallId)
+    if (!resolve)
+      return false
+
+    resolve(approved)
+    return true
+  }
+
+  const activeSessionTools = computed(() => sessionMetas.value[activeSessionId.value]?.tools ?? {})
+
+  /**
+   * Turns a tool on or off for a single session, `undefined` goes back to the card and global settings.
+   */
+  function setSessionToolEnabled(name: string, enabled: boolean | undefined, sessionId = activeSessionId.value) {
+    const meta = ensureSessionMeta(sessionId)
+    const { [name]: _, ...others } = meta.tools ?? {}
+    meta.tools = enabled === undefined ? others : { ...others, [name]: enabled }
+  }
+
+  /**
+   * Fallback models of `card`, the active card by default, or the global chain when the card has none.
+   */
+  function getFallbackChain(card = airiCardStore.activeCard): ModelTarget[] {
+    const cardChain = card?.extensions?.airi?.modules?.consciousness?.fallbacks
+    return cardChain?.length ? cardChain : consciousnessStore.fallbackChain
+  }
+
+  /**
+   * Converts history entries into LLM messages, injects the triggered lorebook entries and
+   * the card instructions that live inside the history, then trims the oldest turns to fit the context window of `model`.
+   * In a group session the prompt is assembled for the speaker of `groupTurn`, and the replies of the other members read as their lines.
+   */
+  function composeMessages(entries: ChatEntry[], model: string, provider?: string, groupTurn?: GroupTurn) {
+    const lastMessageAt = entries.findLast(entry => entry.role !== 'system' && entry.context)?.context?.ts
+
+    const card = groupTurn ? groupTurn.card : airiCardStore.activeCard
+    const render = (text: string) => airiCardStore.renderTemplate(text, { lastMessageAt }, card)
+    const characterBook = card?.characterBook
+    const lorebook = characterBook?.entries.length
+      ? scanLorebook(characterBook, entries.filter(entry => entry.role !== 'system').map(extractSearchableText))
+      : undefined
+    // Described when composing, so the markers follow what the stage can act out right now
+    const markersPrompt = llmMarkersStore.describe()
+    const withMarkers = (content: string) => markersPrompt ? `${content}\n\n${markersPrompt}` : content
+
+    const historyMessages = entries.filter(entry => entry.role !== 'error' || includeErrorsInPrompt.value).map((msg) => {
+      const { context: _context, id: _id, parentId: _parentId, usage: _usage, attachments: _attachments, ...withoutContext } = msg
+      const rawMessage = toRaw(withoutContext)
+      if (rawMessage.role === 'error')
+        return { role: 'user', content: describeChatError(rawMessage.content, rawMessage.error) }
+      if (rawMessage.role === 'system' && typeof rawMessage.content === 'string') {
+        if (!msg.parentId && groupTurn) {
+          const { speakerId, names } = groupTurn
+          const others = Object.entries(names).filter(([id]) => id !== speakerId).map(([, name]) => name)
+          return { ...rawMessage, content: withMarkers(render(`${generateInitialMessage(lorebook, card).content}\n${buildGroupNote(names[speakerId], others)}`)) }
+        }
+
+        // Lorebook entries are placed around the character definitions of the root prompt
+        if (msg.parentId)
+          return { ...rawMessage, content: render(rawMessage.content) }
+
+        const content = lorebook ? generateInitialMessage(lorebook).content : rawMessage.content
+        return { ...rawMessage, content: withMarkers(render(content)) }
+      }
+      const otherSpeakerId = groupTurn && getSpeakerId(msg)
+      if (otherSpeakerId && otherSpeakerId !== groupTurn.speakerId) {
+        const name = groupTurn.names[otherSpeakerId] ?? airiCardStore.getCard(otherSpeakerId)?.name
+        return { role: 'user', content: name ? `${name}: ${extractText(rawMessage.content)}` : extractText(rawMessage.content) }
+      }
+      if (rawMessage.role === 'assistant') {
+        const { slices: _, tool_results, ...rest } = rawMessage as ChatAssistantMessage
+        return {
+          ...toRaw(rest),
+          tool_results: toRaw(tool_results),
         }
       }
 
-      const finalContent = contentParts.length > 1 ? contentParts : sendingMessage
+      return rawMessage
+    }) as Message[]
 
-      const userContext: MessageContext = { sessionId: activeSessionId.value, source: 'text', ts: Date.now() }
-      messages.value.push({ role: 'user', content: finalContent, context: userContext })
+    // Post-history instructions and the depth prompt are inserted before budgeting so their size is accounted for
+    const messages = card
+      ? injectHistoryInstructions(historyMessages, card, { render })
+      : historyMessages
 
-      publishContextMessage({
-        sessionId: userContext.sessionId,
-        ts: userContext.ts,
-        role: 'user',
-        source: userContext.source,
-        payload: { content: finalContent },
-      }, 'local')
+    const contextLength = consciousnessStore.getContextLength(model, provider)
+    if (!contextLength)
+      return { messages, lorebook: lorebook?.report }
 
-      const parser = useLlmmarkerParser({
-        onLiteral: async (literal) => {
-          await emitTokenLiteralHooks(literal)
+    const { messages: budgetedMessages, report } = budgetMessages(messages, { contextLength })
+    return { messages: budgetedMessages, budget: report, lorebook: lorebook?.report }
+  }
 
-          streamingMessage.value.content += literal
+  function appendUserTurn(sessionId: string, userTurn: UserTurn) {
+    const userContext: MessageContext = { sessionId, source: 'text', ts: Date.now() }
+    appendMessage({ role: 'user', ...userTurn, context: userContext }, sessionId)
+
+    publishContextMessage({
+      sessionId: userContext.sessionId,
+      ts: userContext.ts,
+      role: 'user',
+      source: userContext.source,
+      payload: { content: userTurn.content, ...(userTurn.attachments ? { attachments: userTurn.attachments } : {}) },
+    }, 'local')
+  }
 
-          // merge text slices for markdown
-          const lastSlice = streamingMessage.value.slices.at(-1)
-          if (lastSlice?.type === 'text') {
-            lastSlice.text += literal
-            return
-          }
+  /**
+   * Adds a reply to the session history and publishes it to the other windows and modules.
+   */
+  function storeReply(sessionId: string, message: ChatAssistantMessage, usage: TokenUsage, meta: Record<string, unknown>, source: MessageContext['source'] = 'llm') {
+    if (isDeletedSession(sessionId))
+      return
 
-          streamingMessage.value.slices.push({
-            type: 'text',
-            text: literal,
-          })
-        },
-        onSpecial: async (special) => {
-          await emitTokenSpecialHooks(special)
-        },
-        minLiteralEmitLength: 24, // Avoid emitting literals too fast. This is a magic number and can be changed later.
-      })
+    const assistantContext: MessageContext = { sessionId, source, ts: Date.now(), meta }
+    appendMessage({ ...message, context: assistantContext, usage }, sessionId)
+
+    publishContextMessage({
+      sessionId: assistantContext.sessionId,
+      ts: assistantContext.ts,
+      role: 'assistant',
+      source: assistantContext.source,
+      meta: assistantContext.meta,
+      payload: {
+        content: message.content,
+        slices: message.slices,
+        tool_results: message.tool_results,
+      },
+    }, 'local')
+  }
+
+  /**
+   * Runs the end-of-reply hooks once a reply was spoken, then names the session after its first exchange.
+   */
+  async function completeReply(sessionId: string, sendingMessage: string, fullText: string, assistantMessage: ChatAssistantMessage | undefined, usage: TokenUsage, options: SendOptions) {
+    // Instruct the TTS pipeline to flush by calling hooks directly
+    const flushSignal = `${TTS_FLUSH_INSTRUCTION}${TTS_FLUSH_INSTRUCTION}`
+    await emitTokenLiteralHooks(flushSignal)
+
+    // Call the end-of-stream hooks
+    await emitStreamEndHooks()
+
+    // Call the end-of-response hooks with the full text
+    await emitAssistantResponseEndHooks(fullText)
+
+    if (assistantMessage)
+      await emitChatCompleteHooks(assistantMessage, usage)
+
+    // eslint-disable-next-line no-console
+    console.debug('LLM output:', fullText)
+
+    await emitAfterSendHooks(sendingMessage)
+
+    if (isDeletedSession(sessionId))
+      return
+
+    const branch = getActiveBranch(ensureSession(sessionId))
+    if (autoTitle.value && !sessionMetas.value[sessionId]?.title && branch.filter(entry => entry.role === 'user').length === 1 && branch.at(-1)?.role === 'assistant')
+      void generateTitle(sessionId, options)
+  }
+
+  /**
+   * Runs one turn against the LLM on the active branch of the active session.
+   * When `userTurn` is given it is appended as the new user turn first, otherwise
+   * the reply answers the user message the branch currently ends with, or follows
+   * the instruction of `unprompted` when the character speaks on its own.
+   * In a group session the member replying is picked by the turn order, unless `speakerId` is given.
+   */
+  async function generateReply(sendingMessage: string, options: SendOptions, userTurn?: UserTurn, { unprompted, speakerId }: ReplyOptions = {}) {
+    sending.value = true
+
+    const sessionId = activeSessionId.value
+    const abortController = new AbortController()
+    streamAbortControllers.set(sessionId, abortController)
+    ensureSessionMeta(sessionId).model = options.model
+
+    try {
+      // The pending user turn is budgeted together with the history, so the report is known before composing
+      const entries = [
+        ...getActiveBranch(ensureSession(sessionId)),
+        ...(userTurn ? [{ role: 'user', content: userTurn.content } satisfies ChatEntry] : []),
+      ]
+      const groupTurn = await resolveGroupTurn(sessionId, entries, options, speakerId, abortController.signal)
+      // Stopped while the speaker was chosen, nothing was composed yet and the draft stays in the input
+      if (abortController.signal.aborted)
+        return
+      const speaker = groupTurn && toChatSpeaker(groupTurn.speakerId, groupTurn.card)
+      streamingSpeaker.value = speaker
+      await emitBeforeMessageComposedHooks(sendingMessage, speaker ? { speaker } : undefined)
+
+      const { messages: newMessages, budget, lorebook } = composeMessages(entries, options.model, undefined, groupTurn)
+      if (unprompted)
+        newMessages.push({ role: 'system', content: unprompted.instruction })
+
+      lastLorebookReport.value = lorebook
+      await emitComposeReportHooks(sendingMessage, { budget, lorebook })
+
+      if (userTurn)
+        appendUserTurn(sessionId, userTurn)
 
       const toolCallQueue = createQueue<ChatSlices>({
         handlers: [
           async (ctx) => {
             if (ctx.data.type === 'tool-call') {
-              streamingMessage.value.slices.push(ctx.data)
+              // Calls that went through approval already have a slice carrying the decision
+              const slice = findToolCallSlice(ctx.data.toolCall.toolCallId)
+              if (slice)
+                slice.toolCall = ctx.data.toolCall
+              else
+                streamingMessage.value.slices.push(ctx.data)
               return
             }
 
@@ -406,149 +1562,371 @@ export const useChatStore = defineStore('chat', () => {
       })
 
       streamingMessage.value = { role: 'assistant', content: '', slices: [], tool_results: [] }
-
-      const newMessages = messages.value.map((msg) => {
-        const { context: _context, ...withoutContext } = msg
-        const rawMessage = toRaw(withoutContext)
-        if (rawMessage.role === 'assistant') {
-          const { slices: _, tool_results, ...rest } = rawMessage as ChatAssistantMessage
-          return {
-            ...toRaw(rest),
-            tool_results: toRaw(tool_results),
-          }
-        }
-
-        return rawMessage
+      const replyStream = createReplyStream(streamingMessage.value, {
+        abortSignal: abortController.signal,
+        onLiteral: async (literal) => {
+          // Text flushed after an abort is only kept for the partial message, it must not be spoken
+          if (!abortController.signal.aborted)
+            await emitTokenLiteralHooks(literal)
+        },
+        onSpecial: async (special) => {
+          await emitTokenSpecialHooks(special)
+        },
+        onToolCall: event => toolCallQueue.enqueue({
+          type: 'tool-call',
+          toolCall: event,
+        }),
+        onToolResult: event => toolCallQueue.enqueue({
+          type: 'tool-call-result',
+          id: event.toolCallId,
+          result: event.result,
+        }),
+        minLiteralEmitLength: 24, // Avoid emitting literals too fast. This is a magic number and can be changed later.
       })
 
-      await emitAfterMessageComposedHooks(sendingMessage)
+      // Nothing was composed by the user, a draft in the input must survive
+      if (!unprompted)
+        await emitAfterMessageComposedHooks(sendingMessage)
       await emitBeforeSendHooks(sendingMessage)
 
-      let fullText = ''
-      const headers = (options.providerConfig?.headers || {}) as Record<string, string>
+      // The pair the reply comes from, recorded in the message context
+      let servedBy: ModelTarget | undefined
+      let servedChatProvider: ChatProvider | undefined
 
-      await stream(options.model, options.chatProvider, newMessages as Message[], {
-        headers,
-        tools: options.tools,
-        onStreamEvent: async (event: StreamEvent) => {
-          switch (event.type) {
-            case 'tool-call':
-              toolCallQueue.enqueue({
-                type: 'tool-call',
-                toolCall: event,
-              })
-              break
-            case 'tool-result':
-              toolCallQueue.enqueue({
-                type: 'tool-call-result',
-                id: event.toolCallId,
-                result: event.result,
-              })
-              break
-            case 'text-delta':
-              fullText += event.text
-              await parser.consume(event.text)
-              break
-            case 'finish':
-            // Do nothing, resolve
-              break
-            case 'error':
-              throw event.error ?? new Error('Stream error')
+      const primaryTarget = {
+        provider: consciousnessStore.activeProvider,
+        model: options.model,
+        chatProvider: options.chatProvider,
+        headers: (options.providerConfig?.headers || {}) as Record<string, string>,
+      }
+      const targets: (ModelTarget & Partial<typeof primaryTarget>)[] = [
+        primaryTarget,
+        ...getFallbackChain(groupTurn?.card).filter(target => target.provider !== primaryTarget.provider || target.model !== primaryTarget.model),
+      ]
+
+      try {
+        await runWithFailover(targets, async (target) => {
+          const { chatProvider, headers } = target === primaryTarget ? primaryTarget : await consciousnessStore.resolveModelTarget(target)
+          servedBy = { provider: target.provider, model: target.model }
+          servedChatProvider = chatProvider
+          replyStream.resetUsage()
+
+          // Records persisted by an earlier visit are only read once loaded
+          await capabilitiesStore.load()
+          let supportsTools = capabilitiesStore.supports(target.model, chatProvider, 'tools')
+          // A fallback is discovered the first time it is used, the active model too when it was never discovered
+          if (supportsTools === undefined) {
+            try {
+              supportsTools = (await capabilitiesStore.discover(target.model, chatProvider, { providerId: target.provider })).capabilities.tools?.supported
+            }
+            catch (error) {
+              console.warn(`Failed to discover the capabilities of ${target.provider}/${target.model}:`, error)
+            }
           }
-        },
-      })
+          if (supportsTools === false)
+            await warnUnsupportedTools(sessionId, target.model)
+
+          await stream(target.model, chatProvider, newMessages, {
+            headers,
+            supportsTools,
+            tools: resolveSessionTools(sessionId, options.tools),
+            abortSignal: abortController.signal,
+            includeUsage: true,
+            onStreamEvent: replyStream.onStreamEvent,
+          })
+        }, {
+          abortSignal: abortController.signal,
+          hasStreamed: () => replyStream.streamed,
+          onAttempt: ({ target, attempt, error, next }) => {
+            if (next !== 'fail')
+              console.warn(`Chat request to ${target.provider}/${target.model} failed (attempt ${attempt + 1}), ${next === 'retry' ? 'retrying' : 'falling back to the next model'}:`, error)
+          },
+        })
+      }
+      catch (error) {
+        // Aborting rejects the stream, which is expected and not an error for the caller
+        if (!abortController.signal.aborted) {
+          if (servedBy && error && typeof error === 'object')
+            failedTargets.set(error, servedBy)
+          throw error
+        }
+      }
+
+      const interrupted = abortController.signal.aborted
+      if (interrupted)
+        toolCallQueue.clear()
+
       // Finalize the parsing of the actual message content
-      await parser.end()
+      await replyStream.end()
+
+      const fullText = replyStream.text
+      const usage = fromProviderUsage(replyStream.usageSteps) ?? estimateUsage(newMessages, fullText)
+      if (!interrupted && servedBy && servedChatProvider)
+        void capabilitiesStore.observe(servedBy.model, servedChatProvider, { usage: replyStream.usageSteps.length > 0, ...(replyStream.reasoningSeen ? { reasoning: true } : {}) })
 
       // Add the completed message to the history only if it has content
+      let assistantMessage: ChatAssistantMessage | undefined
       if (streamingMessage.value.slices.length > 0) {
-        const assistantContext: MessageContext = {
-          sessionId: activeSessionId.value,
-          source: 'llm',
-          ts: Date.now(),
-        }
-
-        const assistantMessage: ChatEntry = {
-          ...(toRaw(streamingMessage.value) as ChatAssistantMessage),
-          context: assistantContext,
-        }
-
-        messages.value.push(assistantMessage)
-
-        publishContextMessage({
-          sessionId: assistantContext.sessionId,
-          ts: assistantContext.ts,
-          role: 'assistant',
-          source: assistantContext.source,
-          payload: {
-            content: assistantMessage.content,
-            slices: assistantMessage.slices,
-            tool_results: assistantMessage.tool_results,
-          },
-        }, 'local')
+        assistantMessage = toRaw(streamingMessage.value) as ChatAssistantMessage
+        storeReply(sessionId, assistantMessage, usage, {
+          ...servedBy,
+          cardId: groupTurn?.speakerId ?? activeCardId.value,
+          ...(interrupted ? { interrupted: true } : {}),
+        }, unprompted?.source)
       }
 
       // Reset the streaming message for the next turn
       streamingMessage.value = { role: 'assistant', content: '', slices: [], tool_results: [] }
 
-      // Instruct the TTS pipeline to flush by calling hooks directly
-      const flushSignal = `${TTS_FLUSH_INSTRUCTION}${TTS_FLUSH_INSTRUCTION}`
-      await emitTokenLiteralHooks(flushSignal)
-
-      // Call the end-of-stream hooks
-      await emitStreamEndHooks()
-
-      // Call the end-of-response hooks with the full text
-      await emitAssistantResponseEndHooks(fullText)
-
-      // eslint-disable-next-line no-console
-      console.debug('LLM output:', fullText)
+      if (interrupted) {
+        usePipelineCharacterSpeechPlaybackQueueStore().clearAll()
+        await emitStreamAbortedHooks()
+        return
+      }
 
-      await emitAfterSendHooks(sendingMessage)
+      await completeReply(sessionId, sendingMessage, fullText, assistantMessage, usage, options)
     }
     catch (error) {
       console.error('Error sending message:', error)
       throw error
     }
     finally {
+      if (streamAbortControllers.get(sessionId) === abortController)
+        streamAbortControllers.delete(sessionId)
+
+      streamingSpeaker.value = undefined
       sending.value = false
     }
   }
 
+  /**
+   * Sends one composed prompt to every target at once and streams each reply into its own column of `comparison`.
+   * Tools are left out so their calls don't run once per model, and nothing reaches the speech pipeline
+   * until a reply is kept with `keepComparisonReply`.
+   */
+  async function compare(sendingMessage: string, targets: ModelTarget[], options: Pick<SendOptions, 'attachments'> = {}) {
+    const sessionId = activeSessionId.value
+    if (targets.length === 0 || streamAbortControllers.has(sessionId))
+      return
+
+    const userTurn = await composeAttachedUserTurn(sendingMessage, options.attachments)
+    if (!userTurn)
+      return
+
+    sending.value = true
+    const abortController = new AbortController()
+    streamAbortControllers.set(sessionId, abortController)
+
+    try {
+      const budgetTarget = pickBudgetTarget(targets, target => consciousnessStore.getContextLength(target.model, target.provider))
+      const entries: ChatEntry[] = [
+        ...getActiveBranch(ensureSession(sessionId)),
+        { role: 'user', content: userTurn.content },
+      ]
+      // Every column answers as the same member, the model isn't asked to pick one
+      const groupTurn = await resolveGroupTurn(sessionId, entries)
+      const speaker = groupTurn && toChatSpeaker(groupTurn.speakerId, groupTurn.card)
+      await emitBeforeMessageComposedHooks(sendingMessage, speaker ? { speaker } : undefined)
+
+      const { messages: newMessages, budget, lorebook } = composeMessages(entries, budgetTarget.model, budgetTarget.provider, groupTurn)
+
+      lastLorebookReport.value = lorebook
+      await emitComposeReportHooks(sendingMessage, { budget, lorebook })
+      appendUserTurn(sessionId, userTurn)
+      await emitAfterMessageComposedHooks(sendingMessage)
+      await emitBeforeSendHooks(sendingMessage)
+
+      const startedAt = Date.now()
+      comparison.value = { sessionId, message: sendingMessage, speakerId: groupTurn?.speakerId, columns: targets.map(target => createComparisonColumn(target, startedAt)) }
+      // Read back through the store state, so the columns are updated reactively
+      const columns = comparison.value.columns
+
+      await Promise.all(columns.map(async (column) => {
+        const replyStream = createReplyStream(column.message, {
+          abortSignal: abortController.signal,
+          onFirstOutput: () => column.timeToFirstTokenMs = Date.now() - column.startedAt,
+        })
+
+        try {
+          const { chatProvider, headers } = await consciousnessStore.resolveModelTarget(column.target)
+          await stream(column.target.model, chatProvider, newMessages, {
+            headers,
+            abortSignal: abortController.signal,
+            includeUsage: true,
+            onStreamEvent: replyStream.onStreamEvent,
+          })
+
+          await replyStream.end()
+          column.status = 'done'
+        }
+        catch (error) {
+          if (abortController.signal.aborted) {
+            column.status = 'aborted'
+          }
+          else {
+            const { info, message } = classifyChatError(error, column.target)
+            column.status = 'failed'
+            column.error = { message, info }
+          }
+        }
+        finally {
+          column.text = replyStream.text
+          column.latencyMs = Date.now() - column.startedAt
+          column.usage = fromProviderUsage(replyStream.usageSteps) ?? estimateUsage(newMessages, column.text)
+        }
+      }))
+    }
+    finally {
+      if (streamAbortControllers.get(sessionId) === abortController)
+        streamAbortControllers.delete(sessionId)
+
+      sending.value = false
+    }
+  }
+
+  /**
+   * Keeps the reply of one compared model as the answer in the session, and only that one is spoken.
+   * Columns still streaming are stopped.
+   */
+  async function keepComparisonReply(columnIndex: number) {
+    const current = comparison.value
+    const column = current?.columns[columnIndex]
+    if (!current || column?.status !== 'done')
+      return
+
+    abort(current.sessionId)
+    comparison.value = undefined
+
+    const assistantMessage = JSON.parse(JSON.stringify(column.message)) as ChatAssistantMessage
+    const usage = column.usage ?? estimateUsage([], column.text)
+    storeReply(current.sessionId, assistantMessage, usage, { ...column.target, cardId: current.speakerId ?? activeCardId.value })
+
+    // The kept reply goes through the marker parser again, this time for the speech and emotion queues
+    const parser = useLlmmarkerParser({
+      onLiteral: literal => emitTokenLiteralHooks(literal),
+      onSpecial: special => emitTokenSpecialHooks(special),
+      minLiteralEmitLength: 24,
+    })
+    await parser.consume(column.text)
+    await parser.end()
+
+    const { chatProvider, headers } = await consciousnessStore.resolveModelTarget(column.target)
+    await completeReply(current.sessionId, current.message, column.text, assistantMessage, usage, {
+      model: column.target.model,
+      chatProvider,
+      providerConfig: { headers },
+    })
+  }
+
+  /**
+   * Stops a comparison and drops its replies, the user turn stays in the session without an answer.
+   */
+  function discardComparison() {
+    if (!comparison.value)
+      return
+
+    abort(comparison.value.sessionId)
+    comparison.value = undefined
+  }
+
+  /**
+   * Stops the generation running for the given session, if any.
+   * The partial assistant message is kept in the history and marked as interrupted.
+   *
+   * @returns whether there was an in-flight generation to abort.
+   */
+  function abort(sessionId = activeSessionId.value) {
+    const controller = streamAbortControllers.get(sessionId)
+    if (!controller)
+      return false
+
+    controller.abort(new DOMException('Generation aborted by user', 'AbortError'))
+    return true
+  }
+
+  function cancel() {
+    return abort(activeSessionId.value)
+  }
+
   return {
     sending,
     activeSessionId,
+    autoTitle,
+    includeErrorsInPrompt,
     messages,
+    messageBranches,
     streamingMessage,
-
-    discoverToolsCompatibility,
+    streamingSpeaker,
+    comparison,
+    lastLorebookReport,
+    greetingSwipe,
+    sessionUsage,
+    activeSessionTools,
+    activeSessionGroup,
+    activeSessionLoadError,
 
     send,
+    regenerate,
+    editAndResend,
+    nudge,
+    compare,
+    keepComparisonReply,
+    discardComparison,
+    switchBranch,
+    swipeGreeting,
+    setSessionToolEnabled,
+    decideToolCall,
+    appendMessage,
+    appendError,
+    removeMessage,
+    abort,
+    cancel,
     setActiveSession,
+    listSessions,
+    createSession,
+    setSessionGroup,
+    renameSession,
+    pinSession,
+    deleteSession,
     ingestContextMessage,
     publishContextMessage,
     cleanupMessages,
+    loadSession,
+    retrySessionLoad,
+    getSessionMessages,
     getAllSessions,
+    getSessionBackup,
+    getUsageSummary,
+    importSessions,
     replaceSessions,
     resetAllSessions,
+    events,
     clearHooks,
     emitBeforeMessageComposedHooks,
+    emitComposeReportHooks,
     emitAfterMessageComposedHooks,
     emitBeforeSendHooks,
     emitAfterSendHooks,
     emitTokenLiteralHooks,
     emitTokenSpecialHooks,
     emitStreamEndHooks,
+    emitStreamAbortedHooks,
     emitAssistantResponseEndHooks,
+    emitChatCompleteHooks,
+    emitCapabilityWarningHooks,
 
     onBeforeMessageComposed,
+    onComposeReport,
     onAfterMessageComposed,
     onBeforeSend,
     onAfterSend,
     onTokenLiteral,
     onTokenSpecial,
     onStreamEnd,
+    onStreamAborted,
     onAssistantResponseEnd,
+    onChatComplete,
+    onCapabilityWarning,
     onContextPublish,
   }
 })
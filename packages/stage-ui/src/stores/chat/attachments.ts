@@ -0,0 +1,157 @@
+import type { CommonContentPart } from '@xsai/shared-chat'
+
+import type { ChatAttachmentMeta, ChatAttachmentType } from '../../types/chat'
+
+export interface ImageAttachment {
+  type: 'image'
+  /** Base64 without the data URL prefix */
+  data: string
+  mimeType: string
+  name?: string
+}
+
+/**
+ * A file whose content reaches the model as text: transcribed, extracted or inlined as is.
+ */
+export interface FileAttachment {
+  type: Exclude<ChatAttachmentType, 'image'>
+  file: File
+}
+
+export type ChatAttachment = ImageAttachment | FileAttachment
+
+export interface AttachmentResolvers {
+  /** Transcript of an audio clip */
+  transcribe: (file: File) => Promise<string>
+  /** Text of a PDF document */
+  extractPdfText: (file: File) => Promise<string>
+}
+
+/**
+ * Thrown when an attachment can't be turned into something the model can read.
+ */
+export class AttachmentError extends Error {
+  attachmentName: string
+
+  constructor(attachmentName: string, message: string, cause?: unknown) {
+    super(`Attachment "${attachmentName}": ${message}`, { cause })
+    this.name = 'AttachmentError'
+    this.attachmentName = attachmentName
+  }
+}
+
+// Files above these sizes are refused before being read
+export const MAX_ATTACHMENT_BYTES: Record<FileAttachment['type'], number> = {
+  text: 2 * 1024 * 1024,
+  // Most transcription APIs refuse anything larger
+  audio: 25 * 1024 * 1024,
+  pdf: 20 * 1024 * 1024,
+}
+// Longer texts, transcripts and documents are cut, a single attachment must not fill the context window
+export const MAX_INLINED_TEXT_LENGTH = 32_000
+
+const TEXT_MIME_TYPES = new Set(['application/json', 'application/xml', 'application/yaml', 'application/x-yaml', 'application/toml', 'application/javascript', 'application/x-sh'])
+const TEXT_EXTENSIONS = /\.(?:txt|log|md|markdown|csv|tsv|json|jsonl|ya?ml|toml|ini|conf|cfg|xml|html?|css|[cm]?[jt]sx?|vue|py|rb|go|rs|java|kt|c|h|cpp|hpp|cs|sh|sql|srt|vtt)$/i
+
+/**
+ * Kind of attachment a file is sent as, `undefined` for files the model can't be given.
+ */
+export function detectAttachmentType(file: Pick<File, 'name' | 'type'>): ChatAttachmentType | undefined {
+  if (file.type.startsWith('image/'))
+    return 'image'
+  if (file.type.startsWith('audio/'))
+    return 'audio'
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name))
+    return 'pdf'
+  if (file.type.startsWith('text/') || TEXT_MIME_TYPES.has(file.type) || TEXT_EXTENSIONS.test(file.name))
+    return 'text'
+
+  return undefined
+}
+
+// File names are chosen by whoever sent the file, one must not be able to close the tag and write its own instructions
+function escapeAttribute(value: string) {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replace(/\s+/g, ' ')
+}
+
+// The same goes for the content, a file holding `</attachment>` would end the tag early
+function escapeBody(text: string) {
+  return text.replace(/<(\/?attachment)/gi, '&lt;$1')
+}
+
+function inlineText(name: string, type: FileAttachment['type'], text: string) {
+  const truncated = text.length > MAX_INLINED_TEXT_LENGTH
+  const body = truncated
+    ? `${text.slice(0, MAX_INLINED_TEXT_LENGTH)}\n[Truncated, ${MAX_INLINED_TEXT_LENGTH} of ${text.length} characters shown]`
+    : text
+
+  return {
+    part: { type: 'text', text: `<attachment name="${escapeAttribute(name)}" type="${type}">\n${escapeBody(body)}\n</attachment>` } satisfies CommonContentPart,
+    truncated,
+  }
+}
+
+async function readAttachmentText(attachment: FileAttachment, resolvers: AttachmentResolvers) {
+  switch (attachment.type) {
+    case 'audio':
+      return resolvers.transcribe(attachment.file)
+    case 'pdf':
+      return resolvers.extractPdfText(attachment.file)
+    case 'text':
+      return attachment.file.text()
+  }
+}
+
+/**
+ * Content parts of the attachments, to follow the text of the user message, and the metadata kept with the message.
+ */
+export async function resolveAttachments(attachments: ChatAttachment[], resolvers: AttachmentResolvers) {
+  const parts: CommonContentPart[] = []
+  const metas: ChatAttachmentMeta[] = []
+
+  for (const attachment of attachments) {
+    if (attachment.type === 'image') {
+      parts.push({ type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } })
+      metas.push({
+        type: 'image',
+        name: attachment.name ?? 'image',
+        mimeType: attachment.mimeType,
+        // Four base64 characters hold three bytes
+        size: Math.floor(attachment.data.replace(/=+$/, '').length * 3 / 4),
+      })
+      continue
+    }
+
+    const { file } = attachment
+    if (file.size > MAX_ATTACHMENT_BYTES[attachment.type])
+      throw new AttachmentError(file.name, `larger than the ${Math.round(MAX_ATTACHMENT_BYTES[attachment.type] / 1024 / 1024)} MB allowed for ${attachment.type} files`)
+
+    let text: string
+    try {
+      text = (await readAttachmentText(attachment, resolvers)).trim()
+    }
+    catch (error) {
+      throw new AttachmentError(file.name, error instanceof Error ? error.message : String(error), error)
+    }
+
+    if (!text)
+      throw new AttachmentError(file.name, attachment.type === 'audio' ? 'no speech was recognized' : 'no text was found')
+
+    const { part, truncated } = inlineText(file.name, attachment.type, text)
+    parts.push(part)
+    metas.push({
+      type: attachment.type,
+      name: file.name,
+      mimeType: file.type,
+      size: file.size,
+      ...(truncated ? { truncated } : {}),
+    })
+  }
+
+  return { parts, metas }
+}
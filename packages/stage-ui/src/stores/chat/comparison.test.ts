@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+
+import { createComparisonColumn, pickBudgetTarget } from './comparison'
+
+describe('comparison', () => {
+  it('starts columns empty and streaming', () => {
+    expect(createComparisonColumn({ provider: 'openai', model: 'gpt-4o' }, 1000)).toEqual({
+      target: { provider: 'openai', model: 'gpt-4o' },
+      message: { role: 'assistant', content: '', slices: [], tool_results: [] },
+      status: 'streaming',
+      text: '',
+      startedAt: 1000,
+    })
+  })
+
+  it('budgets for the smallest known context window', () => {
+    const targets = [
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'ollama', model: 'llama3' },
+      { provider: 'ollama', model: 'unknown' },
+    ]
+    const contextLengths: Record<string, number> = { 'gpt-4o': 128000, 'llama3': 8192 }
+
+    expect(pickBudgetTarget(targets, target => contextLengths[target.model])).toBe(targets[1])
+    expect(pickBudgetTarget(targets, () => undefined)).toBe(targets[0])
+  })
+})
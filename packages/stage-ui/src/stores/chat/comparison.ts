@@ -0,0 +1,58 @@
+import type { ChatAssistantMessage, ChatErrorInfo } from '../../types/chat'
+import type { ModelTarget } from './failover'
+import type { TokenUsage } from './usage'
+
+/**
+ * Reply of one provider and model pair of a comparison.
+ */
+export interface ChatComparisonColumn {
+  target: ModelTarget
+  message: ChatAssistantMessage
+  status: 'streaming' | 'done' | 'failed' | 'aborted'
+  /** Reply text with its markers, replayed to the speech pipeline when the reply is kept */
+  text: string
+  startedAt: number
+  /** Milliseconds until the first token, reasoning included */
+  timeToFirstTokenMs?: number
+  /** Milliseconds until the reply was complete or failed */
+  latencyMs?: number
+  usage?: TokenUsage
+  error?: { message: string, info: ChatErrorInfo }
+}
+
+/**
+ * The same user turn answered by several models at once, none of the replies is in the session until one is kept.
+ */
+export interface ChatComparison {
+  sessionId: string
+  /** Text of the user turn the columns answer */
+  message: string
+  /** Member every column answers as, in group sessions */
+  speakerId?: string
+  columns: ChatComparisonColumn[]
+}
+
+export function createComparisonColumn(target: ModelTarget, startedAt = Date.now()): ChatComparisonColumn {
+  return {
+    target: { provider: target.provider, model: target.model },
+    message: { role: 'assistant', content: '', slices: [], tool_results: [] },
+    status: 'streaming',
+    text: '',
+    startedAt,
+  }
+}
+
+/**
+ * Target the shared prompt is budgeted for: the one with the smallest known context window,
+ * so the composed prompt fits every model compared.
+ */
+export function pickBudgetTarget<T extends ModelTarget>(targets: T[], getContextLength: (target: T) => number | undefined) {
+  let picked: { target: T, contextLength: number } | undefined
+  for (const target of targets) {
+    const contextLength = getContextLength(target)
+    if (contextLength && (!picked || contextLength < picked.contextLength))
+      picked = { target, contextLength }
+  }
+
+  return picked?.target ?? targets[0]
+}
@@ -0,0 +1,71 @@
+import type { Message } from '@xsai/shared-chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { budgetMessages, estimateTextTokens } from './context-budget'
+
+describe('context budget', () => {
+  it('estimates latin and CJK text differently', () => {
+    expect(estimateTextTokens('abcdefgh')).toBe(2)
+    expect(estimateTextTokens('你好世界')).toBe(4)
+  })
+
+  it('leaves messages untouched when they fit', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'hi' },
+    ]
+
+    const { messages: kept, report } = budgetMessages(messages, { contextLength: 1000 })
+    expect(kept).toBe(messages)
+    expect(report.droppedMessages).toBe(0)
+    expect(report.overflow).toBe(false)
+  })
+
+  it('drops the oldest turns but keeps the system prompt and the latest user turn', () => {
+    const filler = 'lorem ipsum '.repeat(8)
+    const messages: Message[] = [{ role: 'system', content: 'system' }]
+    for (let turn = 0; turn < 6; turn++) {
+      messages.push({ role: 'user', content: `question ${turn} ${filler}` })
+      messages.push({ role: 'assistant', content: `answer ${turn} ${filler}` })
+    }
+    messages.push({ role: 'user', content: 'latest' })
+
+    const { messages: kept, report } = budgetMessages(messages, { contextLength: 1000, reservedTokens: 700 })
+    expect(kept[0].content).toBe('system')
+    expect(kept.at(-1)!.content).toBe('latest')
+    // Whole turns are dropped from the oldest one, the rest stays in order
+    expect(report.droppedMessages).toBeGreaterThan(0)
+    expect(report.droppedMessages % 2).toBe(0)
+    expect(kept.slice(1)).toEqual(messages.slice(1 + report.droppedMessages))
+    expect(report.compressedMessages).toBe(0)
+    expect(report.keptTokens).toBeLessThanOrEqual(report.budget)
+    expect(report.estimatedTokens).toBeGreaterThan(report.keptTokens)
+  })
+
+  it('truncates oversized older messages before dropping them', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'question' },
+      { role: 'assistant', content: 'a'.repeat(4000) },
+      { role: 'user', content: 'latest' },
+    ]
+
+    const { messages: kept, report } = budgetMessages(messages, { contextLength: 2000, reservedTokens: 1000 })
+    expect(kept).toHaveLength(4)
+    expect(report.compressedMessages).toBe(1)
+    expect((kept[2].content as string).endsWith('[truncated]')).toBe(true)
+  })
+
+  it('reports an overflow when the protected messages alone are too large', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'old' },
+      { role: 'user', content: 'a'.repeat(8000) },
+    ]
+
+    const { messages: kept, report } = budgetMessages(messages, { contextLength: 1000 })
+    expect(kept.map(message => message.role)).toEqual(['system', 'user'])
+    expect(report.overflow).toBe(true)
+  })
+})
@@ -0,0 +1,161 @@
+import type { Message } from '@xsai/shared-chat'
+
+/**
+ * What the budgeter did to the history before it was sent, reported through `compose-report`.
+ */
+export interface ContextBudgetReport {
+  /** Context window of the model, in tokens */
+  contextLength: number
+  /** Tokens available for the prompt after reserving room for the reply */
+  budget: number
+  /** Estimated prompt size before trimming */
+  estimatedTokens: number
+  /** Estimated prompt size after trimming */
+  keptTokens: number
+  droppedMessages: number
+  compressedMessages: number
+  /** The protected messages alone did not fit, the prompt was sent anyway */
+  overflow: boolean
+}
+
+export interface ContextBudgetOptions {
+  contextLength: number
+  /** Tokens kept free for the reply, defaults to a quarter of the window capped at 4096 */
+  reservedTokens?: number
+}
+
+// Rough per-message cost of role markers and separators added by chat templates
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Flat cost of an image part, close to what vision models charge for a high detail tile set
+const IMAGE_PART_TOKENS = 765
+const TRUNCATED_SUFFIX = '\n…[truncated]'
+
+/**
+ * Estimates the token count of a text without a tokenizer.
+ *
+ * Latin script averages around 4 characters per token, while CJK and other
+ * wide scripts are closer to one token per character.
+ */
+export function estimateTextTokens(text: string) {
+  let wide = 0
+  let narrow = 0
+  for (const char of text) {
+    if (char.codePointAt(0)! > 0x2E7F)
+      wide++
+    else
+      narrow++
+  }
+
+  return wide + Math.ceil(narrow / 4)
+}
+
+export function estimateMessageTokens(message: Message) {
+  let tokens = MESSAGE_OVERHEAD_TOKENS
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTextTokens(message.content)
+  }
+  else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (part.type === 'text')
+        tokens += estimateTextTokens(part.text)
+      else if (part.type === 'image_url')
+        tokens += IMAGE_PART_TOKENS
+      else
+        tokens += estimateTextTokens(JSON.stringify(part))
+    }
+  }
+
+  if (message.role === 'assistant' && message.tool_calls)
+    tokens += estimateTextTokens(JSON.stringify(message.tool_calls))
+
+  return tokens
+}
+
+function truncateMessage<T extends Message>(message: T, maxTokens: number): T {
+  if (typeof message.content !== 'string')
+    return message
+
+  const tokens = estimateTextTokens(message.content)
+  const keptLength = Math.floor(message.content.length * maxTokens / tokens)
+  return { ...message, content: `${message.content.slice(0, keptLength)}${TRUNCATED_SUFFIX}` }
+}
+
+/**
+ * Fits a conversation into the context window of a model.
+ *
+ * The leading system messages and the latest user turn (the last user message and
+ * everything after it) are always kept. Oversized older messages are truncated first,
+ * then the oldest turns are dropped as a whole, so tool calls never lose their results.
+ */
+export function budgetMessages<T extends Message>(messages: T[], options: ContextBudgetOptions): { messages: T[], report: ContextBudgetReport } {
+  const reservedTokens = options.reservedTokens ?? Math.min(4096, Math.floor(options.contextLength / 4))
+  const budget = Math.max(0, options.contextLength - reservedTokens)
+
+  const costs = messages.map(estimateMessageTokens)
+  const estimatedTokens = costs.reduce((sum, cost) => sum + cost, 0)
+
+  const report: ContextBudgetReport = {
+    contextLength: options.contextLength,
+    budget,
+    estimatedTokens,
+    keptTokens: estimatedTokens,
+    droppedMessages: 0,
+    compressedMessages: 0,
+    overflow: false,
+  }
+
+  if (estimatedTokens <= budget)
+    return { messages, report }
+
+  let headLength = messages.findIndex(message => message.role !== 'system')
+  if (headLength < 0)
+    headLength = messages.length
+  const tailStart = Math.max(headLength, messages.findLastIndex(message => message.role === 'user'))
+
+  const head = messages.slice(0, headLength)
+  const tail = messages.slice(tailStart)
+  const protectedTokens = [...costs.slice(0, headLength), ...costs.slice(tailStart)].reduce((sum, cost) => sum + cost, 0)
+
+  // Group the trimmable middle into turns, each starting at a user message
+  const turns: { messages: T[], tokens: number, compressed: number }[] = []
+  for (let i = headLength; i < tailStart; i++) {
+    if (messages[i].role === 'user' || turns.length === 0)
+      turns.push({ messages: [], tokens: 0, compressed: 0 })
+
+    turns.at(-1)!.messages.push(messages[i])
+  }
+
+  // A single message should not eat more than an eighth of the budget
+  const maxMessageTokens = Math.max(64, Math.floor(budget / 8))
+  for (const turn of turns) {
+    turn.messages = turn.messages.map((message) => {
+      const cost = estimateMessageTokens(message)
+      if (cost <= maxMessageTokens || typeof message.content !== 'string') {
+        turn.tokens += cost
+        return message
+      }
+
+      const truncated = truncateMessage(message, maxMessageTokens)
+      turn.compressed++
+      turn.tokens += estimateMessageTokens(truncated)
+      return truncated
+    })
+  }
+
+  let keptTokens = protectedTokens + turns.reduce((sum, turn) => sum + turn.tokens, 0)
+  while (turns.length > 0 && keptTokens > budget) {
+    const turn = turns.shift()!
+    keptTokens -= turn.tokens
+    report.droppedMessages += turn.messages.length
+  }
+
+  report.compressedMessages = turns.reduce((sum, turn) => sum + turn.compressed, 0)
+  report.keptTokens = keptTokens
+  report.overflow = keptTokens > budget
+
+  return {
+    messages: [...head, ...turns.flatMap(turn => turn.messages), ...tail],
+    report,
+  }
+}
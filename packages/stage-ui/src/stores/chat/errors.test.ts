@@ -0,0 +1,45 @@
+import { XSAIError } from '@xsai/shared'
+import { describe, expect, it } from 'vitest'
+
+import { classifyChatError, ToolExecutionError } from './errors'
+
+function httpError(status: number, body: unknown = '', headers?: Record<string, string>) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  return new XSAIError(`Remote sent ${status} response: ${text}`, new Response(null, { status, headers }))
+}
+
+describe('classifyChatError', () => {
+  it('classifies by status and takes the provider message from the body', () => {
+    expect(classifyChatError(httpError(401, { error: { message: 'Incorrect API key provided', code: 'invalid_api_key' } }), { provider: 'openai', model: 'gpt-4o' })).toEqual({
+      info: { category: 'auth', status: 401, fix: 'open-provider-settings', provider: 'openai', model: 'gpt-4o' },
+      message: 'Incorrect API key provided',
+    })
+    expect(classifyChatError(httpError(404, { error: { message: 'The model `gpt-5` does not exist' } })).info).toMatchObject({ category: 'model-not-found', fix: 'open-model-settings' })
+    expect(classifyChatError(httpError(503, 'Service Unavailable')).info.category).toBe('network')
+    expect(classifyChatError(new TypeError('Failed to fetch')).info.category).toBe('network')
+    expect(classifyChatError(new TypeError('NetworkError when attempting to fetch resource.')).info.category).toBe('network')
+    expect(classifyChatError(new TypeError('terminated', { cause: new Error('fetch failed') })).info.category).toBe('network')
+    // A TypeError that isn't a failed fetch is a bug, no network problem
+    expect(classifyChatError(new TypeError('Cannot read properties of undefined (reading \'network\')')).info.category).toBe('unknown')
+  })
+
+  it('classifies plain 400 responses by their message', () => {
+    expect(classifyChatError(httpError(400, { error: { message: 'This model\'s maximum context length is 8192 tokens', code: 'context_length_exceeded' } })).info)
+      .toEqual({ category: 'context-length', status: 400, fix: 'trim-context' })
+    expect(classifyChatError(httpError(400, { error: { message: 'The response was filtered', code: 'content_filter' } })).info.category).toBe('content-filter')
+    expect(classifyChatError(httpError(400, { error: { message: 'Bad request' } })).info).toEqual({ category: 'unknown', status: 400 })
+  })
+
+  it('reads how long to wait after a rate limit', () => {
+    expect(classifyChatError(httpError(429, '', { 'retry-after': '20' })).info).toEqual({ category: 'rate-limit', status: 429, retryAfterMs: 20000 })
+    expect(classifyChatError(httpError(429, { error: { message: 'Rate limit reached. Please try again in 1.5s.' } })).info.retryAfterMs).toBe(1500)
+    expect(classifyChatError({ message: 'Too many requests', code: 'rate_limit_exceeded' }).info.category).toBe('rate-limit')
+  })
+
+  it('tells tool failures apart', () => {
+    expect(classifyChatError(new ToolExecutionError('search', new Error('offline')))).toEqual({
+      info: { category: 'tool-failure', toolName: 'search' },
+      message: 'Tool "search" failed: offline',
+    })
+  })
+})
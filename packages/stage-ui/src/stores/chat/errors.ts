@@ -0,0 +1,167 @@
+import type { ChatErrorCategory, ChatErrorFix, ChatErrorInfo } from '../../types/chat'
+import type { ModelTarget } from './failover'
+
+import { XSAIError } from '@xsai/shared'
+
+/**
+ * Thrown when a tool called by the model fails, so the reply error can tell it apart from provider failures.
+ */
+export class ToolExecutionError extends Error {
+  toolName: string
+
+  constructor(toolName: string, cause: unknown) {
+    super(`Tool "${toolName}" failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause })
+    this.name = 'ToolExecutionError'
+    this.toolName = toolName
+  }
+}
+
+const FIXES: Partial<Record<ChatErrorCategory, ChatErrorFix>> = {
+  'auth': 'open-provider-settings',
+  'context-length': 'trim-context',
+  'model-not-found': 'open-model-settings',
+}
+
+// Matched against the provider message, most providers answer all of these with a plain 400
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|too many tokens|reduce the length/i
+const CONTENT_FILTER_PATTERN = /content[_ ]filter|content[_ ]policy|content management policy|safety|flagged|moderation/i
+const MODEL_NOT_FOUND_PATTERN = /model[_ ]not[_ ]found|model .*(?:not found|does not exist)|unknown model|no such model/i
+const AUTH_PATTERN = /invalid[_ ]api[_ ]key|incorrect api key|unauthorized|authentication|permission[_ ]denied/i
+const RATE_LIMIT_PATTERN = /rate[_ ]limit|too many requests/i
+const TOOL_PATTERN = /tried to call unavailable tool|Missing toolCall/
+// What fetch rejects with when the connection fails, in browsers and in Node
+const FETCH_FAILURE_PATTERN = /Failed to fetch|fetch failed|NetworkError/
+
+export function errorStatus(error: unknown) {
+  if (error instanceof XSAIError)
+    return error.response?.status
+
+  const status = (error as { status?: unknown } | undefined)?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+/**
+ * Whether the request never got an answer: the connection failed or timed out.
+ */
+export function isNetworkError(error: unknown) {
+  if (!(error instanceof Error))
+    return false
+
+  // fetch rejects with a TypeError when the connection itself fails, any other TypeError is a bug retrying won't fix
+  if (error instanceof TypeError) {
+    const cause = error.cause instanceof Error ? error.cause.message : String(error.cause ?? '')
+    return FETCH_FAILURE_PATTERN.test(error.message) || FETCH_FAILURE_PATTERN.test(cause)
+  }
+
+  return error.name === 'TimeoutError'
+    || /timed? ?out|network|ECONNRESET|ECONNREFUSED|socket hang up/i.test(error.message)
+}
+
+/**
+ * Message and code reported by the provider, from the JSON body xsai puts in the error message
+ * or from an error object sent in the stream.
+ */
+function providerError(error: unknown): { message?: string, code?: string } {
+  let body: unknown = error
+  if (error instanceof Error) {
+    const raw = error.message.match(/response(?: body)?: ([\s\S]*)$/)?.[1]
+    try {
+      body = raw ? JSON.parse(raw) : undefined
+    }
+    catch {
+      return { message: raw }
+    }
+  }
+
+  const payload = (body as { error?: unknown } | undefined)?.error ?? body
+  if (typeof payload === 'string')
+    return { message: payload }
+  if (!payload || typeof payload !== 'object')
+    return {}
+
+  const { message, code, type } = payload as { message?: unknown, code?: unknown, type?: unknown }
+  return {
+    message: typeof message === 'string' ? message : undefined,
+    code: typeof code === 'string' ? code : typeof type === 'string' ? type : undefined,
+  }
+}
+
+function parseRetryAfter(error: unknown, message: string) {
+  const headers = error instanceof XSAIError ? error.response?.headers : undefined
+  const retryAfterMs = Number(headers?.get('retry-after-ms'))
+  if (retryAfterMs > 0)
+    return retryAfterMs
+
+  const retryAfter = headers?.get('retry-after')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!Number.isNaN(seconds))
+      return seconds * 1000
+
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date))
+      return Math.max(0, date - Date.now())
+  }
+
+  // Some providers only say it in the message, e.g. "Please try again in 20s"
+  const hinted = message.match(/(?:try again|retry) in (\d+(?:\.\d+)?) ?(ms|s|seconds?)\b/i)
+  if (hinted)
+    return Number(hinted[1]) * (hinted[2] === 'ms' ? 1 : 1000)
+}
+
+function categorize(error: unknown, status: number | undefined, text: string): ChatErrorCategory {
+  if (error instanceof ToolExecutionError || TOOL_PATTERN.test(text))
+    return 'tool-failure'
+  if (CONTEXT_LENGTH_PATTERN.test(text) || status === 413)
+    return 'context-length'
+  if (CONTENT_FILTER_PATTERN.test(text))
+    return 'content-filter'
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(text))
+    return 'auth'
+  if (status === 429 || RATE_LIMIT_PATTERN.test(text))
+    return 'rate-limit'
+  if (status === 404 || MODEL_NOT_FOUND_PATTERN.test(text))
+    return 'model-not-found'
+  if (status === 408 || status === 502 || status === 503 || status === 504 || (status === undefined && isNetworkError(error)))
+    return 'network'
+
+  return 'unknown'
+}
+
+/**
+ * Sorts a failed chat request into a category the user can act on.
+ *
+ * @returns the classification and the message to show, the provider message when the body had one.
+ */
+export function classifyChatError(error: unknown, target?: ModelTarget): { info: ChatErrorInfo, message: string } {
+  const status = errorStatus(error)
+  const reported = providerError(error)
+  const message = reported.message
+    ?? (error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error')
+
+  const category = categorize(error, status, [reported.code, message].filter(Boolean).join(' '))
+  const info: ChatErrorInfo = { category }
+  const fix = FIXES[category]
+  if (fix)
+    info.fix = fix
+  if (status !== undefined)
+    info.status = status
+  const retryAfterMs = category === 'rate-limit' ? parseRetryAfter(error, message) : undefined
+  if (retryAfterMs !== undefined)
+    info.retryAfterMs = retryAfterMs
+  if (error instanceof ToolExecutionError)
+    info.toolName = error.toolName
+  if (target) {
+    info.provider = target.provider
+    info.model = target.model
+  }
+
+  return { info, message }
+}
+
+/**
+ * Text standing in for an error entry when errors are included in the prompt.
+ */
+export function describeChatError(content: string, info?: ChatErrorInfo) {
+  return `The previous request failed${info ? ` (${info.category})` : ''}: ${content}`
+}
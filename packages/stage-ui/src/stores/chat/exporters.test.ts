@@ -0,0 +1,120 @@
+import type { ChatEntry } from '../chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { exportChatSessions } from './exporters'
+
+function session(): { id: string, title: string, messages: ChatEntry[] } {
+  return {
+    id: 'session-1',
+    title: 'Weather',
+    messages: [
+      { role: 'system', content: 'You are AIRI.' },
+      { role: 'user', content: [{ type: 'text', text: 'Weather in Tokyo?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } }] },
+      {
+        role: 'assistant',
+        content: 'Let me check. It is sunny.',
+        slices: [
+          { type: 'reasoning', text: 'The user wants the weather.' },
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool-call', toolCall: { toolCallId: 'call-1', toolCallType: 'function', toolName: 'weather', args: '{"city":"Tokyo"}' } },
+          { type: 'tool-call-result', id: 'call-1', result: '22°C, sunny' },
+          { type: 'text', text: ' It is sunny.' },
+        ],
+        tool_results: [{ id: 'call-1', result: '22°C, sunny' }],
+      },
+      { role: 'error', content: 'Request failed' },
+    ],
+  }
+}
+
+describe('exportChatSessions', () => {
+  it('writes readable Markdown with tool calls in fenced blocks', () => {
+    const { content, extension } = exportChatSessions([session()], 'markdown', { character: { name: 'AIRI' } })
+
+    expect(extension).toBe('md')
+    expect(content).toBe(`# Weather
+
+## System
+
+You are AIRI.
+
+## User
+
+Weather in Tokyo?
+
+_[image]_
+
+## AIRI
+
+> The user wants the weather.
+
+Let me check.
+
+\`\`\`json tool-call weather
+{
+  "city": "Tokyo"
+}
+\`\`\`
+
+\`\`\`text tool-result
+22°C, sunny
+\`\`\`
+
+It is sunny.
+`)
+  })
+
+  it('writes a self-contained HTML transcript with the avatar', () => {
+    const { content } = exportChatSessions([session()], 'html', {
+      includeReasoning: false,
+      character: { name: 'AIRI', avatar: 'data:image/png;base64,YXZhdGFy' },
+    })
+
+    expect(content).toContain('<img src="data:image/png;base64,YXZhdGFy" alt=""><h1>AIRI</h1>')
+    expect(content).toContain('<img class="attachment" src="data:image/png;base64,aGVsbG8=" alt="image">')
+    expect(content).toContain('22°C, sunny')
+    expect(content).not.toContain('The user wants the weather.')
+    expect(content).not.toContain('Request failed')
+  })
+
+  it('writes OpenAI messages with tool calls followed by their results', () => {
+    const { content } = exportChatSessions([session()], 'jsonl', { includeSystemPrompts: false })
+    const lines = content.trim().split('\n')
+
+    expect(lines).toHaveLength(1)
+    expect(JSON.parse(lines[0]).messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Weather in Tokyo?' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } }] },
+      {
+        role: 'assistant',
+        content: 'Let me check.',
+        reasoning_content: 'The user wants the weather.',
+        tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'weather', arguments: '{"city":"Tokyo"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call-1', content: '22°C, sunny' },
+      { role: 'assistant', content: ' It is sunny.' },
+    ])
+
+    const withoutTools = JSON.parse(exportChatSessions([session()], 'jsonl', { includeToolResults: false, includeReasoning: false }).content)
+    expect(withoutTools.messages.slice(2)).toEqual([
+      { role: 'assistant', content: 'Let me check. It is sunny.' },
+    ])
+  })
+
+  it('writes ShareGPT conversations', () => {
+    const [conversation] = JSON.parse(exportChatSessions([session()], 'sharegpt', { includeToolResults: false }).content)
+
+    expect(conversation).toEqual({
+      id: 'session-1',
+      title: 'Weather',
+      conversations: [
+        { from: 'system', value: 'You are AIRI.' },
+        { from: 'human', value: 'Weather in Tokyo?\n\n<image>' },
+        { from: 'gpt', value: '<think>\nThe user wants the weather.\n</think>\n\nLet me check.' },
+        { from: 'function_call', value: '{"name":"weather","arguments":"{\\"city\\":\\"Tokyo\\"}"}' },
+        { from: 'gpt', value: ' It is sunny.' },
+      ],
+      images: ['data:image/png;base64,aGVsbG8='],
+    })
+  })
+})
@@ -0,0 +1,392 @@
+import type { CommonContentPart } from '@xsai/shared-chat'
+
+import type { ChatAssistantMessage } from '../../types/chat'
+import type { ChatEntry } from '../chat'
+
+export type ChatExportFormat = 'markdown' | 'html' | 'jsonl' | 'sharegpt'
+
+export interface ChatExportCharacter {
+  name: string
+  /** Data URL, so the HTML transcript shows it without anything else */
+  avatar?: string
+}
+
+export interface ChatExportOptions {
+  /** @default true */
+  includeSystemPrompts?: boolean
+  /** @default true */
+  includeReasoning?: boolean
+  /** Results of the tool calls, the calls themselves are kept in Markdown, HTML and ShareGPT. @default true */
+  includeToolResults?: boolean
+  /** Names the turns in Markdown and HTML. @default 'User' */
+  userName?: string
+  character?: ChatExportCharacter
+}
+
+export interface ChatExportSession {
+  id: string
+  title?: string
+  /** Active branch of the session */
+  messages: ChatEntry[]
+}
+
+export interface ChatExportFile {
+  content: string
+  mimeType: string
+  extension: string
+}
+
+type ExportPart
+  = | { type: 'text', text: string }
+    | { type: 'image', url: string }
+    | { type: 'reasoning', text: string }
+    | { type: 'tool-call', id: string, name: string, args: string, result?: string }
+
+interface ExportTurn {
+  role: 'system' | 'user' | 'assistant'
+  parts: ExportPart[]
+}
+
+function resultText(result: ChatAssistantMessage['tool_results'][number]['result']) {
+  if (result === undefined || typeof result === 'string')
+    return result
+
+  return result.map(part => part.type === 'text' ? part.text : `[${part.type}]`).join('\n')
+}
+
+function contentParts(content: string | CommonContentPart[] | undefined | null): ExportPart[] {
+  if (!content)
+    return []
+  if (typeof content === 'string')
+    return [{ type: 'text', text: content }]
+
+  return content.flatMap((part): ExportPart[] => {
+    if (part.type === 'text')
+      return part.text ? [{ type: 'text', text: part.text }] : []
+    if (part.type === 'image_url')
+      return [{ type: 'image', url: part.image_url.url }]
+
+    return []
+  })
+}
+
+function assistantParts(message: ChatAssistantMessage, options: Required<Pick<ChatExportOptions, 'includeReasoning' | 'includeToolResults'>>): ExportPart[] {
+  if (!message.slices?.length)
+    return contentParts(message.content as string | CommonContentPart[] | undefined)
+
+  return message.slices.flatMap((slice): ExportPart[] => {
+    switch (slice.type) {
+      case 'text':
+        return slice.text ? [{ type: 'text', text: slice.text }] : []
+      case 'reasoning':
+        return options.includeReasoning && slice.text ? [{ type: 'reasoning', text: slice.text }] : []
+      case 'tool-call':
+        return [{
+          type: 'tool-call',
+          id: slice.toolCall.toolCallId,
+          name: slice.toolCall.toolName,
+          args: slice.toolCall.args,
+          result: options.includeToolResults
+            ? resultText(message.tool_results?.find(result => result.id === slice.toolCall.toolCallId)?.result)
+            : undefined,
+        }]
+      // Results are read from `tool_results`, next to their call
+      default:
+        return []
+    }
+  })
+}
+
+/**
+ * Turns of the conversation as they are exported, failed requests are left out.
+ */
+function collectTurns(messages: ChatEntry[], options: ChatExportOptions): ExportTurn[] {
+  const includeReasoning = options.includeReasoning ?? true
+  const includeToolResults = options.includeToolResults ?? true
+
+  return messages.flatMap((message): ExportTurn[] => {
+    switch (message.role) {
+      case 'system':
+        return options.includeSystemPrompts ?? true ? [{ role: 'system', parts: contentParts(message.content as string | CommonContentPart[]) }] : []
+      case 'user':
+        return [{ role: 'user', parts: contentParts(message.content) }]
+      case 'assistant':
+        return [{ role: 'assistant', parts: assistantParts(message as ChatAssistantMessage, { includeReasoning, includeToolResults }) }]
+      default:
+        return []
+    }
+  }).filter(turn => turn.parts.length > 0)
+}
+
+/**
+ * Assistant parts grouped the way chat APIs expect them: text, then the tool calls it made, then the next text.
+ */
+function splitAtToolCalls(parts: ExportPart[]) {
+  const steps: { text: string, reasoning: string, calls: Extract<ExportPart, { type: 'tool-call' }>[] }[] = []
+  for (const part of parts) {
+    let step = steps.at(-1)
+    if (!step || (step.calls.length > 0 && part.type !== 'tool-call')) {
+      step = { text: '', reasoning: '', calls: [] }
+      steps.push(step)
+    }
+
+    if (part.type === 'text')
+      step.text += part.text
+    else if (part.type === 'reasoning')
+      step.reasoning += part.text
+    else if (part.type === 'tool-call')
+      step.calls.push(part)
+  }
+
+  return steps
+}
+
+// Fence longer than any backtick run of the content, so it can't be closed early
+function fence(content: string, info: string) {
+  const longestRun = Math.max(0, ...[...content.matchAll(/`+/g)].map(match => match[0].length))
+  const marker = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${marker}${info}\n${content}\n${marker}`
+}
+
+function prettyArgs(args: string) {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2)
+  }
+  catch {
+    return args
+  }
+}
+
+function roleName(role: ExportTurn['role'], options: ChatExportOptions) {
+  if (role === 'system')
+    return 'System'
+
+  return role === 'user' ? options.userName || 'User' : options.character?.name || 'Assistant'
+}
+
+function sessionToMarkdown(session: ChatExportSession, options: ChatExportOptions) {
+  const blocks = [`# ${session.title || session.id}`]
+  for (const turn of collectTurns(session.messages, options)) {
+    blocks.push(`## ${roleName(turn.role, options)}`)
+    for (const part of turn.parts) {
+      switch (part.type) {
+        case 'text':
+          if (part.text.trim())
+            blocks.push(part.text.trim())
+          break
+        case 'image':
+          // Embedded images would bury the transcript under base64
+          blocks.push(part.url.startsWith('data:') ? '_[image]_' : `![image](${part.url})`)
+          break
+        case 'reasoning':
+          blocks.push(part.text.split('\n').map(line => `> ${line}`).join('\n'))
+          break
+        case 'tool-call':
+          blocks.push(fence(prettyArgs(part.args), `json tool-call ${part.name}`))
+          if (part.result !== undefined)
+            blocks.push(fence(part.result, 'text tool-result'))
+          break
+      }
+    }
+  }
+
+  return blocks.join('\n\n')
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #f5f5f5; color: #262626; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+header { display: flex; align-items: center; gap: 12px; }
+header img { width: 56px; height: 56px; border-radius: 50%; object-fit: cover; }
+h2 { margin-top: 40px; font-size: 18px; }
+.turn { margin: 12px 0; padding: 12px 16px; border-radius: 12px; background: #fff; }
+.turn.user { margin-left: 48px; background: #e5e5e5; }
+.turn.system { background: #fafafa; border: 1px dashed #d4d4d4; }
+.role { font-size: 13px; color: #737373; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; }
+.reasoning { margin: 8px 0; padding-left: 12px; border-left: 3px solid #d4d4d4; color: #737373; white-space: pre-wrap; }
+pre { overflow-x: auto; padding: 8px 12px; border-radius: 8px; background: #f5f5f5; font-size: 13px; }
+img.attachment { max-width: 100%; border-radius: 8px; }
+@media (prefers-color-scheme: dark) {
+  body { background: #171717; color: #e5e5e5; }
+  .turn { background: #262626; }
+  .turn.user { background: #404040; }
+  .turn.system { background: #1f1f1f; border-color: #404040; }
+  pre { background: #171717; }
+}
+`
+
+function sessionToHtml(session: ChatExportSession, options: ChatExportOptions) {
+  const turns = collectTurns(session.messages, options).map((turn) => {
+    const parts = turn.parts.map((part) => {
+      switch (part.type) {
+        case 'text':
+          return `<div class="text">${escapeHtml(part.text)}</div>`
+        case 'image':
+          return `<img class="attachment" src="${escapeHtml(part.url)}" alt="image">`
+        case 'reasoning':
+          return `<div class="reasoning">${escapeHtml(part.text)}</div>`
+        case 'tool-call':
+          return [
+            `<pre><code>${escapeHtml(`${part.name}(${prettyArgs(part.args)})`)}</code></pre>`,
+            part.result !== undefined ? `<pre><code>${escapeHtml(part.result)}</code></pre>` : '',
+          ].join('')
+        default:
+          return ''
+      }
+    })
+
+    return `<article class="turn ${turn.role}"><div class="role">${escapeHtml(roleName(turn.role, options))}</div>${parts.join('')}</article>`
+  })
+
+  return `<section><h2>${escapeHtml(session.title || session.id)}</h2>${turns.join('\n')}</section>`
+}
+
+function sessionsToHtml(sessions: ChatExportSession[], options: ChatExportOptions) {
+  const character = options.character
+  const title = sessions.length === 1 ? sessions[0].title || sessions[0].id : character?.name || 'Conversations'
+  const header = character
+    ? `<header>${character.avatar ? `<img src="${escapeHtml(character.avatar)}" alt="">` : ''}<h1>${escapeHtml(character.name)}</h1></header>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${header}
+${sessions.map(session => sessionToHtml(session, options)).join('\n')}
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Messages in the format of the OpenAI chat API, one assistant message per step between tool calls.
+ */
+function sessionToOpenAIMessages(session: ChatExportSession, options: ChatExportOptions) {
+  const includeToolResults = options.includeToolResults ?? true
+  const messages: Record<string, unknown>[] = []
+
+  for (const turn of collectTurns(session.messages, options)) {
+    if (turn.role !== 'assistant') {
+      const onlyText = turn.parts.every(part => part.type === 'text')
+      messages.push({
+        role: turn.role,
+        content: onlyText
+          ? turn.parts.map(part => part.type === 'text' ? part.text : '').join('\n\n')
+          : turn.parts.map(part => part.type === 'image' ? { type: 'image_url', image_url: { url: part.url } } : { type: 'text', text: part.type === 'text' ? part.text : '' }),
+      })
+      continue
+    }
+
+    for (const step of splitAtToolCalls(turn.parts)) {
+      // A call without its result is not a valid conversation, calls are only kept with their results
+      const calls = includeToolResults ? step.calls : []
+      if (!step.text && calls.length === 0)
+        continue
+
+      const previous = messages.at(-1)
+      if (calls.length === 0 && !step.reasoning && previous?.role === 'assistant' && !previous.tool_calls) {
+        previous.content = `${previous.content}${step.text}`
+        continue
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: step.text,
+        ...(step.reasoning ? { reasoning_content: step.reasoning } : {}),
+        ...(calls.length > 0
+          ? { tool_calls: calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.args } })) }
+          : {}),
+      })
+      for (const call of calls)
+        messages.push({ role: 'tool', tool_call_id: call.id, content: call.result ?? '' })
+    }
+  }
+
+  return messages
+}
+
+/**
+ * Conversation in the ShareGPT format, tool calls use the `function_call` and `observation` turns.
+ */
+function sessionToShareGPT(session: ChatExportSession, options: ChatExportOptions) {
+  const conversations: { from: string, value: string }[] = []
+  const images: string[] = []
+
+  for (const turn of collectTurns(session.messages, options)) {
+    if (turn.role !== 'assistant') {
+      const value = turn.parts.map((part) => {
+        if (part.type !== 'image')
+          return part.type === 'text' ? part.text : ''
+
+        images.push(part.url)
+        return '<image>'
+      }).join('\n\n')
+      conversations.push({ from: turn.role === 'user' ? 'human' : 'system', value })
+      continue
+    }
+
+    for (const step of splitAtToolCalls(turn.parts)) {
+      const text = step.reasoning ? `<think>\n${step.reasoning}\n</think>\n\n${step.text}` : step.text
+      if (text)
+        conversations.push({ from: 'gpt', value: text })
+
+      for (const call of step.calls) {
+        conversations.push({ from: 'function_call', value: JSON.stringify({ name: call.name, arguments: call.args }) })
+        if (call.result !== undefined)
+          conversations.push({ from: 'observation', value: call.result })
+      }
+    }
+  }
+
+  return {
+    id: session.id,
+    ...(session.title ? { title: session.title } : {}),
+    conversations,
+    ...(images.length > 0 ? { images } : {}),
+  }
+}
+
+export const CHAT_EXPORT_FILE_TYPES: Record<ChatExportFormat, { mimeType: string, extension: string }> = {
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  html: { mimeType: 'text/html', extension: 'html' },
+  jsonl: { mimeType: 'application/jsonl', extension: 'jsonl' },
+  sharegpt: { mimeType: 'application/json', extension: 'json' },
+}
+
+function renderSessions(sessions: ChatExportSession[], format: ChatExportFormat, options: ChatExportOptions) {
+  switch (format) {
+    case 'markdown':
+      return `${sessions.map(session => sessionToMarkdown(session, options)).join('\n\n---\n\n')}\n`
+    case 'html':
+      return sessionsToHtml(sessions, options)
+    case 'jsonl':
+      return sessions.map(session => `${JSON.stringify({ messages: sessionToOpenAIMessages(session, options) })}\n`).join('')
+    case 'sharegpt':
+      return JSON.stringify(sessions.map(session => sessionToShareGPT(session, options)), null, 2)
+  }
+}
+
+/**
+ * Renders sessions as a file to download or share. JSONL has one `{"messages": [...]}` line per session,
+ * ShareGPT is a JSON array with one conversation per session.
+ */
+export function exportChatSessions(sessions: ChatExportSession[], format: ChatExportFormat, options: ChatExportOptions = {}): ChatExportFile {
+  return { content: renderSessions(sessions, format, options), ...CHAT_EXPORT_FILE_TYPES[format] }
+}
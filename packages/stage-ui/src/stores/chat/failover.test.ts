@@ -0,0 +1,87 @@
+import { XSAIError } from '@xsai/shared'
+import { describe, expect, it, vi } from 'vitest'
+
+import { backoffDelay, isRetryableError, retryDelay, runWithFailover } from './failover'
+
+function httpError(status: number, headers?: Record<string, string>) {
+  return new XSAIError(`Remote sent ${status} response`, new Response(null, { status, headers }))
+}
+
+describe('failover', () => {
+  it('classifies retryable errors', () => {
+    expect(isRetryableError(httpError(429))).toBe(true)
+    expect(isRetryableError(httpError(503))).toBe(true)
+    expect(isRetryableError(httpError(401))).toBe(false)
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isRetryableError(new TypeError('Cannot read properties of undefined (reading \'choices\')'))).toBe(false)
+    expect(isRetryableError(new Error('Request timed out'))).toBe(true)
+    expect(isRetryableError(new Error('Invalid model'))).toBe(false)
+  })
+
+  it('backs off exponentially up to the limit', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 500 }
+    expect([0, 1, 2, 3].map(attempt => backoffDelay(attempt, policy))).toEqual([100, 200, 400, 500])
+  })
+
+  it('waits as long as a rate limit asks for, unless it asks for more than the limit', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 5000 }
+    expect(retryDelay(httpError(429, { 'retry-after': '2' }), 0, policy)).toBe(2000)
+    expect(retryDelay(httpError(429, { 'retry-after': '60' }), 0, policy)).toBeUndefined()
+    expect(retryDelay(httpError(429), 1, policy)).toBe(200)
+    expect(retryDelay(httpError(503), 0, policy)).toBe(100)
+  })
+
+  it('retries retryable errors, then falls back to the next target', async () => {
+    const sleep = vi.fn(async (_ms: number) => {})
+    const calls: string[] = []
+    const result = await runWithFailover(['local', 'cloud'], async (target) => {
+      calls.push(target)
+      if (target === 'local')
+        throw httpError(503)
+    }, { policy: { maxRetries: 2, baseDelayMs: 10, maxDelayMs: 100 }, sleep })
+
+    expect(result).toBe('cloud')
+    expect(calls).toEqual(['local', 'local', 'local', 'cloud'])
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([10, 20])
+  })
+
+  it('falls back right away on hard failures', async () => {
+    const calls: string[] = []
+    await runWithFailover(['local', 'cloud'], async (target) => {
+      calls.push(target)
+      if (target === 'local')
+        throw httpError(404)
+    }, { sleep: async () => {} })
+
+    expect(calls).toEqual(['local', 'cloud'])
+  })
+
+  it('falls back instead of waiting longer than the limit for a rate limit', async () => {
+    const sleep = vi.fn(async (_ms: number) => {})
+    const nexts: string[] = []
+    const calls: string[] = []
+    await expect(runWithFailover(['local', 'cloud'], async (target) => {
+      calls.push(target)
+      throw httpError(429, { 'retry-after': '60' })
+    }, { sleep, onAttempt: attempt => nexts.push(attempt.next) })).rejects.toThrow('429')
+
+    expect(calls).toEqual(['local', 'cloud'])
+    expect(nexts).toEqual(['fallback', 'fail'])
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('never retries once output was streamed', async () => {
+    const run = vi.fn(async () => {
+      throw httpError(503)
+    })
+
+    await expect(runWithFailover(['local', 'cloud'], run, { hasStreamed: () => true, sleep: async () => {} })).rejects.toThrow('503')
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('throws the last error when every target failed', async () => {
+    await expect(runWithFailover(['local', 'cloud'], async (target) => {
+      throw new Error(`${target} is down`)
+    })).rejects.toThrow('cloud is down')
+  })
+})
@@ -0,0 +1,137 @@
+import { classifyChatError, errorStatus, isNetworkError } from './errors'
+
+/**
+ * A provider and model pair of a fallback chain, as picked in the providers store.
+ */
+export interface ModelTarget {
+  provider: string
+  model: string
+}
+
+export interface RetryPolicy {
+  /** Retries of the same target before moving on to the next one */
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+}
+
+export interface FailoverAttempt<T> {
+  target: T
+  /** Zero based attempt number on this target */
+  attempt: number
+  error: unknown
+  /** What happens next: the same target again, the next target, or giving up */
+  next: 'retry' | 'fallback' | 'fail'
+}
+
+export interface FailoverOptions<T> {
+  policy?: RetryPolicy
+  abortSignal?: AbortSignal
+  /** Whether the failed attempt already streamed output, which can not be taken back */
+  hasStreamed?: () => boolean
+  onAttempt?: (attempt: FailoverAttempt<T>) => void
+  /** Replaceable for tests */
+  sleep?: (ms: number, abortSignal?: AbortSignal) => Promise<void>
+}
+
+/**
+ * Whether a failed request is worth sending again as is: timeouts, rate limits, server errors and network failures.
+ */
+export function isRetryableError(error: unknown) {
+  const status = errorStatus(error)
+  if (status !== undefined)
+    return status === 408 || status === 429 || status >= 500
+
+  return isNetworkError(error)
+}
+
+export function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+}
+
+/**
+ * How long to wait before retrying after `error`: as long as a rate limit asks for, otherwise the
+ * exponential backoff. `undefined` when the rate limit asks for longer than the policy limit, the
+ * request is better sent elsewhere than retried too early.
+ */
+export function retryDelay(error: unknown, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+  const { retryAfterMs } = classifyChatError(error).info
+  if (retryAfterMs === undefined)
+    return backoffDelay(attempt, policy)
+
+  return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined
+}
+
+function abortableSleep(ms: number, abortSignal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason)
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortSignal!.reason)
+    }
+    timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    abortSignal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs `run` against each target in order until one succeeds.
+ *
+ * Retryable errors are retried on the same target after the delay the provider asked for, or with
+ * exponential backoff when it didn't say, other errors, exhausted retries and rate limits asking
+ * for longer than the policy allows move on to the next target. Once output was streamed, or the request was
+ * aborted, the error is thrown right away.
+ *
+ * @returns the target that succeeded.
+ */
+export async function runWithFailover<T>(targets: T[], run: (target: T, attempt: number) => Promise<void>, options: FailoverOptions<T> = {}): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY
+  const sleep = options.sleep ?? abortableSleep
+
+  let lastError: unknown = new Error('No model to send the message to')
+  for (const [targetIndex, target] of targets.entries()) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await run(target, attempt)
+        return target
+      }
+      catch (error) {
+        lastError = error
+        if (options.abortSignal?.aborted || options.hasStreamed?.()) {
+          options.onAttempt?.({ target, attempt, error, next: 'fail' })
+          throw error
+        }
+
+        const hasNextTarget = targetIndex < targets.length - 1
+        const delay = isRetryableError(error) && attempt < policy.maxRetries
+          ? retryDelay(error, attempt, policy)
+          : undefined
+        const next = delay !== undefined
+          ? 'retry'
+          : hasNextTarget ? 'fallback' : 'fail'
+        options.onAttempt?.({ target, attempt, error, next })
+
+        if (delay === undefined)
+          break
+
+        await sleep(delay, options.abortSignal)
+      }
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+
+import { findMentionedMember, nextMemberInTurn, parseSpeakerReply } from './group'
+
+const members = [
+  { id: 'alice', names: ['Alice'] },
+  { id: 'bob', names: ['Bob', 'Robert'] },
+  { id: 'mei', names: ['小美'] },
+]
+
+describe('group turns', () => {
+  it('finds the member mentioned first', () => {
+    expect(findMentionedMember('What do you think, bob? Alice said no.', members)).toBe('bob')
+    expect(findMentionedMember('Robert and Alice', members)).toBe('bob')
+    // Part of another word is not a mention
+    expect(findMentionedMember('Bobby and Malice', members)).toBeUndefined()
+    expect(findMentionedMember('你好小美', members)).toBe('mei')
+  })
+
+  it('takes turns in member order', () => {
+    expect(nextMemberInTurn(['alice', 'bob'])).toBe('alice')
+    expect(nextMemberInTurn(['alice', 'bob'], 'alice')).toBe('bob')
+    expect(nextMemberInTurn(['alice', 'bob'], 'bob')).toBe('alice')
+    expect(nextMemberInTurn(['alice', 'bob'], 'left-the-group')).toBe('alice')
+  })
+
+  it('reads the speaker picked by the model', async () => {
+    expect(await parseSpeakerReply('"Robert".', members)).toBe('bob')
+    expect(await parseSpeakerReply('<think>Alice spoke last</think>\nbob', members)).toBe('bob')
+    expect(await parseSpeakerReply('I think Alice should answer', members)).toBe('alice')
+    expect(await parseSpeakerReply('Nobody', members)).toBeUndefined()
+    // Names in reasoning cut off before it closed are not a pick
+    expect(await parseSpeakerReply('<think>Alice spoke last', members)).toBeUndefined()
+  })
+})
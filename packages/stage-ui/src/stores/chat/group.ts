@@ -0,0 +1,112 @@
+import type { ChatProvider } from '@xsai-ext/shared-providers'
+
+import { generateText } from '@xsai/generate-text'
+import { message } from '@xsai/utils-chat'
+
+import { parseShortReply } from './short-reply'
+
+/**
+ * How the next speaker of a group session is picked:
+ * - `round-robin`: members take turns in the order they were added
+ * - `mentioned`: the member named in the latest message, otherwise the next in turn
+ * - `llm`: the model picks who fits the conversation, otherwise the next in turn
+ */
+export type GroupTurnOrder = 'round-robin' | 'mentioned' | 'llm'
+
+export const GROUP_TURN_ORDERS: GroupTurnOrder[] = ['round-robin', 'mentioned', 'llm']
+
+/**
+ * Characters of a group session, kept in its metadata.
+ */
+export interface ChatGroup {
+  /** AIRI card ids, in turn order */
+  members: string[]
+  turnOrder: GroupTurnOrder
+}
+
+export interface GroupMember {
+  id: string
+  /** Names the member is mentioned by, the first one is shown */
+  names: string[]
+}
+
+const SPEAKER_PROMPT = 'You direct a group chat. Given the members and the latest messages, reply with the name of the member who should speak next, and nothing else.'
+const MAX_EXCERPT_LENGTH = 500
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function findName(text: string, name: string) {
+  // Letters around the name mean it is part of another word, except in scripts written without spaces
+  const pattern = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(name)
+    ? new RegExp(escapeRegExp(name), 'iu')
+    : new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'iu')
+
+  return text.search(pattern)
+}
+
+/**
+ * Member named first in `text`, `undefined` when nobody is.
+ */
+export function findMentionedMember(text: string, members: GroupMember[]) {
+  let mentioned: { id: string, position: number } | undefined
+  for (const member of members) {
+    for (const name of member.names.filter(name => name.trim())) {
+      const position = findName(text, name.trim())
+      if (position >= 0 && (!mentioned || position < mentioned.position))
+        mentioned = { id: member.id, position }
+    }
+  }
+
+  return mentioned?.id
+}
+
+/**
+ * Member after `lastSpeakerId`, the first one when nobody spoke yet or the last speaker left the group.
+ */
+export function nextMemberInTurn(members: string[], lastSpeakerId?: string) {
+  const index = lastSpeakerId ? members.indexOf(lastSpeakerId) : -1
+  return members[(index + 1) % members.length]
+}
+
+/**
+ * Matches the reply of the model to a member, tolerating the quotes and punctuation models tend to add.
+ */
+export async function parseSpeakerReply(text: string, members: GroupMember[]) {
+  const reply = await parseShortReply(text)
+
+  return members.find(member => member.names.some(name => name.trim().toLowerCase() === reply.toLowerCase()))?.id
+    ?? findMentionedMember(reply, members)
+}
+
+/**
+ * Asks the model which member should speak next. Pass the signal of the reply the speaker is chosen
+ * for as `abortSignal`, so stopping the reply stops the question too.
+ */
+export async function chooseSpeaker(model: string, chatProvider: ChatProvider, members: GroupMember[], transcript: { name: string, text: string }[], headers?: Record<string, string>, abortSignal?: AbortSignal) {
+  const memberList = members.map(member => `- ${member.names[0]}`).join('\n')
+  const excerpt = transcript
+    .map(({ name, text }) => `${name}: ${text.slice(0, MAX_EXCERPT_LENGTH)}`)
+    .join('\n\n')
+
+  const { text } = await generateText({
+    ...chatProvider.chat(model),
+    headers,
+    abortSignal,
+    messages: message.messages(
+      message.system(SPEAKER_PROMPT),
+      message.user(`Members:\n${memberList}\n\nConversation:\n${excerpt}`),
+    ),
+  })
+
+  return parseSpeakerReply(text ?? '', members)
+}
+
+/**
+ * Appended to the system prompt of the speaker, so it knows who else is in the conversation.
+ */
+export function buildGroupNote(speakerName: string, otherNames: string[]) {
+  const others = [...otherNames, '{{user}}'].join(', ')
+  return `You are ${speakerName} in a group conversation with ${others}. Messages of the others are prefixed with their name. Write only ${speakerName}'s next reply, without a name prefix, and never speak for the others.`
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+
+import { appendEntry, createHistoryTree, getActiveBranch, getActiveBranchSiblings, removeEntry, switchBranch } from './history-tree'
+
+describe('history tree', () => {
+  it('migrates a flat history into a single branch', () => {
+    const tree = createHistoryTree([
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello', slices: [], tool_results: [] },
+    ])
+
+    const branch = getActiveBranch(tree)
+    expect(branch.map(entry => entry.content)).toEqual(['system', 'hi', 'hello'])
+    expect(branch[0].parentId).toBeUndefined()
+    expect(branch[1].parentId).toBe(branch[0].id)
+    expect(branch[2].parentId).toBe(branch[1].id)
+    expect(tree.activeLeafId).toBe(branch[2].id)
+  })
+
+  it('keeps forked replies as siblings and switches between them', () => {
+    const tree = createHistoryTree([
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'hi' },
+    ])
+    const [, user] = getActiveBranch(tree)
+
+    const first = appendEntry(tree, { role: 'assistant', content: 'first', slices: [], tool_results: [] })
+    appendEntry(tree, { role: 'user', content: 'follow up' })
+
+    const second = appendEntry(tree, { role: 'assistant', content: 'second', slices: [], tool_results: [] }, user.id)
+    expect(getActiveBranch(tree).map(entry => entry.content)).toEqual(['system', 'hi', 'second'])
+    expect(getActiveBranchSiblings(tree)[2]).toEqual({ siblingIds: [first.id, second.id], index: 1 })
+
+    // Switching back continues down to the latest message of that branch
+    expect(switchBranch(tree, first.id)).toBe(true)
+    expect(getActiveBranch(tree).map(entry => entry.content)).toEqual(['system', 'hi', 'first', 'follow up'])
+    expect(getActiveBranchSiblings(tree)[2].index).toBe(0)
+
+    expect(switchBranch(tree, 'missing')).toBe(false)
+  })
+
+  it('removes an entry together with its descendants', () => {
+    const tree = createHistoryTree([
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello', slices: [], tool_results: [] },
+    ])
+    const [system, user] = getActiveBranch(tree)
+
+    removeEntry(tree, user.id)
+
+    expect(Object.keys(tree.entries)).toEqual([system.id])
+    expect(tree.activeLeafId).toBe(system.id)
+  })
+})
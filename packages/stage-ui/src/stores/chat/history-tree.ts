@@ -0,0 +1,129 @@
+import type { ChatEntry } from '../chat'
+
+import { nanoid } from 'nanoid'
+
+/**
+ * Tree-shaped history of a single chat session.
+ *
+ * Every entry points at its parent, so regenerated replies and edited user messages
+ * become siblings instead of overwriting what came after them. The branch that is shown
+ * and sent to the LLM is the path from the root to `activeLeafId`.
+ */
+export interface ChatHistoryTree {
+  /** Every entry of the session, keyed by id, in insertion order */
+  entries: Record<string, ChatHistoryNode>
+  activeLeafId?: string
+}
+
+export type ChatHistoryNode = ChatEntry & { id: string }
+
+export interface ChatHistoryBranch {
+  /** Ids of the entry and its siblings, oldest first */
+  siblingIds: string[]
+  /** Position of the entry within `siblingIds` */
+  index: number
+}
+
+/**
+ * Builds a single-branch tree out of a flat list of messages,
+ * used to migrate v2 sessions and to import plain histories.
+ */
+export function createHistoryTree(messages: ChatEntry[] = []): ChatHistoryTree {
+  const tree: ChatHistoryTree = { entries: {} }
+  for (const message of messages)
+    appendEntry(tree, message)
+
+  return tree
+}
+
+/**
+ * Adds an entry under `parentId` (the active leaf by default) and makes it the active leaf.
+ */
+export function appendEntry(tree: ChatHistoryTree, entry: ChatEntry, parentId = tree.activeLeafId): ChatHistoryNode {
+  const node: ChatHistoryNode = { ...entry, id: entry.id ?? nanoid(), parentId }
+  tree.entries[node.id] = node
+  tree.activeLeafId = node.id
+
+  return node
+}
+
+/**
+ * Resolves the active branch, root first.
+ */
+export function getActiveBranch(tree: ChatHistoryTree): ChatHistoryNode[] {
+  const branch: ChatHistoryNode[] = []
+  const visited = new Set<string>()
+
+  let current = tree.activeLeafId ? tree.entries[tree.activeLeafId] : undefined
+  // NOTICE: visited guards against cycles from hand-edited or corrupted storage
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    branch.unshift(current)
+    current = current.parentId ? tree.entries[current.parentId] : undefined
+  }
+
+  return branch
+}
+
+function indexChildren(tree: ChatHistoryTree) {
+  const children = new Map<string | undefined, string[]>()
+  for (const entry of Object.values(tree.entries)) {
+    const siblings = children.get(entry.parentId) ?? []
+    siblings.push(entry.id)
+    children.set(entry.parentId, siblings)
+  }
+
+  return children
+}
+
+/**
+ * Sibling information for every entry of the active branch, aligned with {@link getActiveBranch}.
+ */
+export function getActiveBranchSiblings(tree: ChatHistoryTree): ChatHistoryBranch[] {
+  const children = indexChildren(tree)
+
+  return getActiveBranch(tree).map((entry) => {
+    const siblingIds = children.get(entry.parentId) ?? [entry.id]
+    return { siblingIds, index: siblingIds.indexOf(entry.id) }
+  })
+}
+
+/**
+ * Makes `entryId` part of the active branch, continuing down to the most recent leaf below it.
+ *
+ * @returns whether the entry exists in the tree.
+ */
+export function switchBranch(tree: ChatHistoryTree, entryId: string) {
+  if (!tree.entries[entryId])
+    return false
+
+  const children = indexChildren(tree)
+  let leafId = entryId
+  for (let next = children.get(leafId)?.at(-1); next; next = children.get(leafId)?.at(-1))
+    leafId = next
+
+  tree.activeLeafId = leafId
+  return true
+}
+
+/**
+ * Removes an entry together with everything that branched off it.
+ * When the active branch went through it, the branch is cut back to its parent.
+ */
+export function removeEntry(tree: ChatHistoryTree, entryId: string) {
+  const entry = tree.entries[entryId]
+  if (!entry)
+    return
+
+  const activeIds = new Set(getActiveBranch(tree).map(node => node.id))
+  const children = indexChildren(tree)
+  const pending = [entryId]
+  while (pending.length > 0) {
+    const id = pending.pop()!
+    pending.push(...(children.get(id) ?? []))
+    delete tree.entries[id]
+  }
+
+  if (activeIds.has(entryId))
+    tree.activeLeafId = entry.parentId
+}
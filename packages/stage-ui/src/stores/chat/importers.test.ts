@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+
+import { getActiveBranch, getActiveBranchSiblings } from './history-tree'
+import { ChatImportError, parseChatImport } from './importers'
+
+function jsonl(...lines: unknown[]) {
+  return lines.map(line => typeof line === 'string' ? line : JSON.stringify(line)).join('\n')
+}
+
+describe('parseChatImport', () => {
+  it('imports a SillyTavern chat with swipes as branches', () => {
+    const file = jsonl(
+      { user_name: 'You', character_name: 'Seraphina', create_date: '2024-05-01T10:00:00.000Z', chat_metadata: {} },
+      { name: 'Seraphina', is_user: false, mes: 'Welcome, traveler.', send_date: '2024-05-01T10:00:00.000Z' },
+      { name: 'You', is_user: true, mes: 'Where am I?', send_date: '2024-05-01T10:01:00.000Z' },
+      {
+        name: 'Seraphina',
+        is_user: false,
+        mes: 'In my glade.',
+        swipes: ['In the forest.', 'In my glade.'],
+        swipe_id: 1,
+        swipe_info: [{}, { extra: { reasoning: 'They look lost.' } }],
+        send_date: '2024-05-01T10:02:00.000Z',
+      },
+      '{ broken',
+      { name: 'System', is_user: false, is_system: true, mes: 'Narrator note' },
+    )
+
+    const { format, sessions, issues } = parseChatImport('Seraphina - 2024-05-01.jsonl', file)
+
+    expect(format).toBe('sillytavern')
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0]).toMatchObject({ title: 'Seraphina - 2024-05-01', createdAt: Date.parse('2024-05-01T10:00:00.000Z') })
+
+    const branch = getActiveBranch(sessions[0].tree)
+    expect(branch.map(entry => entry.content)).toEqual(['Welcome, traveler.', 'Where am I?', 'In my glade.'])
+    expect(branch[2]).toMatchObject({
+      slices: [{ type: 'reasoning', text: 'They look lost.' }, { type: 'text', text: 'In my glade.' }],
+      context: { sessionId: sessions[0].id, source: 'sillytavern', meta: { name: 'Seraphina' } },
+    })
+    expect(getActiveBranchSiblings(sessions[0].tree)[2]).toMatchObject({ index: 1 })
+    expect(sessions[0].tree.entries[getActiveBranchSiblings(sessions[0].tree)[2].siblingIds[0]].content).toBe('In the forest.')
+
+    expect(issues).toEqual([
+      { session: 'Seraphina - 2024-05-01', position: '5', reason: 'invalid-json' },
+      { session: 'Seraphina - 2024-05-01', position: '6', reason: 'hidden' },
+    ])
+  })
+
+  it('imports ChatGPT conversations following the mapping tree', () => {
+    const conversations = [{
+      title: 'Trip ideas',
+      create_time: 1714557600,
+      update_time: 1714557900,
+      current_node: 'reply-2',
+      mapping: {
+        'root': { message: null, parent: null, children: ['system'] },
+        'system': { message: { author: { role: 'system' }, content: { content_type: 'text', parts: [''] } }, parent: 'root', children: ['question'] },
+        'question': {
+          message: { author: { role: 'user' }, content: { content_type: 'multimodal_text', parts: [{ asset_pointer: 'file-service://1' }, 'Where should I go?'] }, create_time: 1714557660 },
+          parent: 'system',
+          children: ['reply-1', 'thoughts'],
+        },
+        'reply-1': { message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['Kyoto.'] } }, parent: 'question', children: [] },
+        'thoughts': { message: { author: { role: 'assistant' }, content: { content_type: 'thoughts', thoughts: [{ content: 'Spring is coming.' }] } }, parent: 'question', children: ['browse'] },
+        'browse': { message: { author: { role: 'tool' }, content: { content_type: 'tether_browsing_display' } }, parent: 'thoughts', children: ['reply-2'] },
+        'reply-2': { message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['Kyoto, for the blossoms.'] } }, parent: 'browse', children: [] },
+      },
+    }]
+
+    const { format, sessions, issues } = parseChatImport('conversations.json', JSON.stringify(conversations))
+
+    expect(format).toBe('chatgpt')
+    expect(sessions[0]).toMatchObject({ title: 'Trip ideas', createdAt: 1714557600000, updatedAt: 1714557900000 })
+
+    const branch = getActiveBranch(sessions[0].tree)
+    expect(branch.map(entry => entry.content)).toEqual(['Where should I go?', 'Kyoto, for the blossoms.'])
+    expect(branch[0].context).toEqual({ sessionId: sessions[0].id, source: 'chatgpt', ts: 1714557660000 })
+    expect(branch[1]).toMatchObject({ slices: [{ type: 'reasoning', text: 'Spring is coming.' }, { type: 'text', text: 'Kyoto, for the blossoms.' }] })
+    expect(getActiveBranchSiblings(sessions[0].tree)[1]).toEqual({ siblingIds: ['reply-1', 'reply-2'], index: 1 })
+
+    expect(issues).toEqual([
+      { session: 'Trip ideas', position: 'question', reason: 'attachments-dropped' },
+      { session: 'Trip ideas', position: 'browse', reason: 'unsupported-content', detail: 'tool' },
+    ])
+  })
+
+  it('validates backups and refuses unknown files', () => {
+    const { format, sessions, issues } = parseChatImport('backup.json', JSON.stringify({
+      'session-1': [
+        { role: 'user', content: 'hi', context: { sessionId: 'session-1', source: 'text', ts: 1000 } },
+        { role: 'assistant', content: 'hello' },
+        { role: 'narrator', content: 'nope' },
+        { role: 'user', content: 42 },
+      ],
+    }))
+
+    expect(format).toBe('airi')
+    expect(sessions[0]).toMatchObject({ id: 'session-1', createdAt: 1000 })
+    expect(getActiveBranch(sessions[0].tree)[1]).toMatchObject({ role: 'assistant', slices: [{ type: 'text', text: 'hello' }], tool_results: [] })
+    expect(issues.map(issue => issue.position)).toEqual(['2', '3'])
+
+    expect(() => parseChatImport('notes.txt', 'just some notes')).toThrow(ChatImportError)
+    expect(() => parseChatImport('list.json', '[1, 2, 3]')).toThrow(ChatImportError)
+  })
+
+  it('reads the branches and metadata of full backups', () => {
+    const { sessions, issues } = parseChatImport('backup.json', JSON.stringify({
+      version: 2,
+      sessions: {
+        'session-1': {
+          meta: { id: 'session-1', title: 'Trip', createdAt: 1000, updatedAt: 2000, pinned: true, tools: { echo: false }, group: { members: ['a', 'b'], turnOrder: 'sometimes' } },
+          tree: {
+            entries: {
+              root: { id: 'root', role: 'system', content: 'system' },
+              question: { id: 'question', parentId: 'root', role: 'user', content: 'hi' },
+              first: { id: 'first', parentId: 'question', role: 'assistant', content: 'one' },
+              second: { id: 'second', parentId: 'question', role: 'assistant', content: 'two' },
+              broken: { id: 'broken', parentId: 'question', role: 'user', content: 42 },
+              orphan: { id: 'orphan', parentId: 'broken', role: 'assistant', content: 'lost' },
+            },
+            activeLeafId: 'orphan',
+          },
+        },
+      },
+    }))
+
+    expect(sessions[0]).toMatchObject({ id: 'session-1', title: 'Trip', createdAt: 1000, updatedAt: 2000, meta: { pinned: true, tools: { echo: false }, group: undefined } })
+    expect(Object.keys(sessions[0].tree.entries)).toEqual(['root', 'question', 'first', 'second'])
+    // The active leaf was dropped, the last entry kept takes its place
+    expect(getActiveBranch(sessions[0].tree).map(entry => entry.content)).toEqual(['system', 'hi', 'two'])
+    expect(getActiveBranchSiblings(sessions[0].tree)[2]).toEqual({ siblingIds: ['first', 'second'], index: 1 })
+    expect(issues.map(issue => issue.position)).toEqual(['broken', 'orphan'])
+  })
+})
@@ -0,0 +1,536 @@
+import type { ChatAssistantMessage, ChatSlices } from '../../types/chat'
+import type { ChatEntry } from '../chat'
+import type { ChatHistoryTree } from './history-tree'
+import type { ChatSessionMeta } from './sessions'
+
+import { nanoid } from 'nanoid'
+
+import { GROUP_TURN_ORDERS } from './group'
+import { appendEntry, createHistoryTree } from './history-tree'
+
+/**
+ * Applications chats are imported from, recorded as `context.source` of the imported messages.
+ */
+export type ChatImportSource = 'sillytavern' | 'chatgpt'
+
+/** `airi` is a backup exported from the data settings */
+export type ChatImportFormat = 'airi' | ChatImportSource
+
+export type ChatImportIssueReason
+  = | 'invalid-json'
+    | 'invalid-message'
+    | 'hidden'
+    | 'empty'
+    | 'unsupported-content'
+    | 'attachments-dropped'
+
+/**
+ * A message that was skipped, or only partly imported.
+ */
+export interface ChatImportIssue {
+  /** Title or id of the session the message belongs to */
+  session: string
+  /** Line of a JSONL file, index of a backup entry or id of a ChatGPT message */
+  position: string
+  reason: ChatImportIssueReason
+  /** Content type that could not be imported, for `unsupported-content` */
+  detail?: string
+}
+
+export interface ImportedChatSession {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  /** History without the system prompt, the store roots it under the current one */
+  tree: ChatHistoryTree
+  /** Metadata only a backup carries */
+  meta?: Partial<Pick<ChatSessionMeta, 'pinned' | 'cardId' | 'model' | 'tools' | 'group'>>
+}
+
+/**
+ * Backup exported from the data settings, every branch of every session along with its metadata.
+ * Backups made before it were an object of active branches keyed by session id, they are still read.
+ */
+export interface ChatSessionBackup {
+  version: 2
+  sessions: Record<string, { meta: ChatSessionMeta, tree: ChatHistoryTree }>
+}
+
+export interface ChatImportResult {
+  format: ChatImportFormat
+  sessions: ImportedChatSession[]
+  issues: ChatImportIssue[]
+}
+
+/**
+ * Thrown when a file is not a chat export that can be imported at all.
+ */
+export class ChatImportError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause })
+    this.name = 'ChatImportError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toTimestamp(value: unknown, fallback: number) {
+  if (typeof value === 'number' && Number.isFinite(value))
+    return value
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value)
+    if (!Number.isNaN(parsed))
+      return parsed
+  }
+
+  return fallback
+}
+
+function assistantEntry(text: string, reasoning: string | undefined, context: ChatEntry['context']): ChatEntry {
+  const slices: ChatSlices[] = [
+    ...(reasoning ? [{ type: 'reasoning', text: reasoning } as const] : []),
+    { type: 'text', text },
+  ]
+
+  return { role: 'assistant', content: text, slices, tool_results: [], context }
+}
+
+const ENTRY_ROLES = new Set(['system', 'user', 'assistant', 'tool', 'error'])
+
+function isContentPart(value: unknown) {
+  if (!isRecord(value) || typeof value.type !== 'string')
+    return false
+  if (value.type === 'text')
+    return typeof value.text === 'string'
+  if (value.type === 'image_url')
+    return isRecord(value.image_url) && typeof value.image_url.url === 'string'
+
+  return true
+}
+
+/**
+ * Entry of a backup that can be stored as is, `undefined` when it is malformed.
+ * Assistant messages written before slices existed get their text as a single slice.
+ */
+function validateEntry(value: unknown): ChatEntry | undefined {
+  if (!isRecord(value) || typeof value.role !== 'string' || !ENTRY_ROLES.has(value.role))
+    return undefined
+
+  const content = value.content
+  const validContent = typeof content === 'string'
+    || (Array.isArray(content) && content.every(isContentPart))
+    // Assistant messages made only of tool calls have no content
+    || (value.role === 'assistant' && content == null)
+  if (!validContent)
+    return undefined
+
+  if (value.role !== 'assistant')
+    return value as unknown as ChatEntry
+
+  const message = value as unknown as ChatAssistantMessage
+  return {
+    ...message,
+    slices: Array.isArray(message.slices) ? message.slices : [{ type: 'text', text: typeof content === 'string' ? content : '' }],
+    tool_results: Array.isArray(message.tool_results) ? message.tool_results : [],
+  } as ChatEntry
+}
+
+function isBackup(payload: Record<string, unknown>): payload is Record<string, unknown> & { sessions: Record<string, unknown> } {
+  return payload.version === 2 && isRecord(payload.sessions)
+}
+
+/**
+ * Entries of a backed up tree that can be stored as is. Malformed entries are left out with everything below them,
+ * the active leaf falls back to the last entry kept.
+ */
+function validateTree(sessionId: string, value: Record<string, unknown>, issues: ChatImportIssue[]): ChatHistoryTree {
+  const candidates = new Map<string, ChatEntry>()
+  for (const [id, raw] of Object.entries(isRecord(value.entries) ? value.entries : {})) {
+    const entry = validateEntry(raw)
+    if (entry && (entry.parentId === undefined || typeof entry.parentId === 'string'))
+      candidates.set(id, entry)
+    else
+      issues.push({ session: sessionId, position: id, reason: 'invalid-message' })
+  }
+
+  // Walks up to the root, the step limit breaks cycles
+  const isRooted = (id: string) => {
+    let current = candidates.get(id)
+    for (let steps = 0; current?.parentId && steps < candidates.size; steps++)
+      current = candidates.get(current.parentId)
+
+    return !!current && !current.parentId
+  }
+
+  const tree: ChatHistoryTree = { entries: {} }
+  for (const [id, entry] of candidates) {
+    if (isRooted(id))
+      tree.entries[id] = { ...entry, id }
+    else
+      issues.push({ session: sessionId, position: id, reason: 'invalid-message' })
+  }
+
+  tree.activeLeafId = typeof value.activeLeafId === 'string' && tree.entries[value.activeLeafId]
+    ? value.activeLeafId
+    : Object.keys(tree.entries).at(-1)
+  return tree
+}
+
+function validateMeta(value: unknown): ImportedChatSession['meta'] {
+  if (!isRecord(value))
+    return undefined
+
+  const { pinned, cardId, model, tools, group } = value
+  const validTools = isRecord(tools) && Object.values(tools).every(enabled => typeof enabled === 'boolean')
+  const validGroup = isRecord(group)
+    && Array.isArray(group.members) && group.members.length > 0 && group.members.every(member => typeof member === 'string')
+    && GROUP_TURN_ORDERS.includes(group.turnOrder as never)
+
+  return {
+    pinned: pinned === true,
+    cardId: typeof cardId === 'string' ? cardId : undefined,
+    model: typeof model === 'string' ? model : undefined,
+    tools: validTools ? tools as Record<string, boolean> : undefined,
+    group: validGroup ? group as unknown as ChatSessionMeta['group'] : undefined,
+  }
+}
+
+function importBackupSessions(payload: Record<string, unknown>, now: number, issues: ChatImportIssue[]): ImportedChatSession[] {
+  return Object.entries(payload).flatMap(([sessionId, session]) => {
+    if (!isRecord(session) || !isRecord(session.tree))
+      return []
+
+    const tree = validateTree(sessionId, session.tree, issues)
+    if (Object.keys(tree.entries).length === 0)
+      return []
+
+    const meta = isRecord(session.meta) ? session.meta : {}
+    return [{
+      id: sessionId,
+      title: typeof meta.title === 'string' ? meta.title : '',
+      createdAt: toTimestamp(meta.createdAt, now),
+      updatedAt: toTimestamp(meta.updatedAt, now),
+      tree,
+      meta: validateMeta(meta),
+    }]
+  })
+}
+
+function importFlatSessions(payload: Record<string, unknown>, now: number, issues: ChatImportIssue[]): ImportedChatSession[] {
+  const sessions: ImportedChatSession[] = []
+  for (const [sessionId, messages] of Object.entries(payload)) {
+    if (!Array.isArray(messages))
+      continue
+
+    const entries: ChatEntry[] = []
+    messages.forEach((message, index) => {
+      const entry = validateEntry(message)
+      if (entry)
+        entries.push(entry)
+      else
+        issues.push({ session: sessionId, position: String(index), reason: 'invalid-message' })
+    })
+    if (entries.length === 0)
+      continue
+
+    const timestamps = entries.map(entry => entry.context?.ts).filter((ts): ts is number => typeof ts === 'number')
+    sessions.push({
+      id: sessionId,
+      title: '',
+      createdAt: timestamps.length > 0 ? Math.min(...timestamps) : now,
+      updatedAt: timestamps.length > 0 ? Math.max(...timestamps) : now,
+      tree: createHistoryTree(entries),
+    })
+  }
+
+  return sessions
+}
+
+/**
+ * Sessions of a backup exported from the data settings, in either backup shape.
+ * Malformed entries are left out, the rest of the session is kept.
+ */
+export function importAiriSessions(payload: unknown): ChatImportResult {
+  if (!isRecord(payload))
+    throw new ChatImportError('Expected an object of chat sessions keyed by session id')
+
+  const now = Date.now()
+  const issues: ChatImportIssue[] = []
+  const sessions = isBackup(payload)
+    ? importBackupSessions(payload.sessions, now, issues)
+    : importFlatSessions(payload, now, issues)
+
+  return { format: 'airi', sessions, issues }
+}
+
+function stripExtension(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '')
+}
+
+/**
+ * A SillyTavern chat: a header line with the chat metadata, then one message per line.
+ * Swipes of a reply become sibling branches, the chat continues from the selected one.
+ */
+export function importSillyTavernChat(text: string, fileName = ''): ChatImportResult {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line: line.trim(), number: index + 1 })).filter(({ line }) => line)
+
+  const parsed = lines.map(({ line, number }) => {
+    try {
+      return { number, value: JSON.parse(line) as unknown }
+    }
+    catch {
+      return { number, value: undefined }
+    }
+  })
+
+  const [first] = parsed
+  const header = isRecord(first?.value) && ('chat_metadata' in first.value || 'character_name' in first.value) && !('mes' in first.value)
+    ? first.value
+    : undefined
+  const records = header ? parsed.slice(1) : parsed
+  if (!records.some(({ value }) => isRecord(value) && typeof value.mes === 'string'))
+    throw new ChatImportError('No SillyTavern messages were found')
+
+  const now = Date.now()
+  const sessionId = nanoid()
+  const title = stripExtension(fileName) || (typeof header?.character_name === 'string' ? header.character_name : '') || 'SillyTavern'
+  const tree: ChatHistoryTree = { entries: {} }
+  const issues: ChatImportIssue[] = []
+  let parentId: string | undefined
+  let updatedAt = toTimestamp(header?.create_date, now)
+
+  for (const { number, value } of records) {
+    const issue = (reason: ChatImportIssueReason) => issues.push({ session: title, position: String(number), reason })
+    if (value === undefined) {
+      issue('invalid-json')
+      continue
+    }
+    if (!isRecord(value) || typeof value.mes !== 'string') {
+      issue('invalid-message')
+      continue
+    }
+    // Hidden messages are kept out of the prompt by SillyTavern, narrator messages included
+    if (value.is_system === true) {
+      issue('hidden')
+      continue
+    }
+
+    const ts = toTimestamp(value.send_date, updatedAt)
+    updatedAt = Math.max(updatedAt, ts)
+    const context = {
+      sessionId,
+      source: 'sillytavern' as const,
+      ts,
+      meta: typeof value.name === 'string' ? { name: value.name } : undefined,
+    }
+
+    if (value.is_user === true) {
+      if (!value.mes.trim()) {
+        issue('empty')
+        continue
+      }
+
+      parentId = appendEntry(tree, { role: 'user', content: value.mes, context }, parentId).id
+      continue
+    }
+
+    const extra = isRecord(value.extra) ? value.extra : {}
+    const swipes = Array.isArray(value.swipes) && value.swipes.every(swipe => typeof swipe === 'string') && value.swipes.length > 1
+      ? value.swipes as string[]
+      : [value.mes]
+    const swipeInfo = Array.isArray(value.swipe_info) ? value.swipe_info : []
+    const selected = typeof value.swipe_id === 'number' && swipes[value.swipe_id] !== undefined
+      ? value.swipe_id
+      : Math.max(0, swipes.indexOf(value.mes))
+    if (!swipes.some(swipe => swipe.trim())) {
+      issue('empty')
+      continue
+    }
+
+    let selectedId: string | undefined
+    swipes.forEach((swipe, index) => {
+      const info = isRecord(swipeInfo[index]) ? swipeInfo[index] as Record<string, unknown> : {}
+      const infoExtra = isRecord(info.extra) ? info.extra : {}
+      const reasoning = typeof infoExtra.reasoning === 'string'
+        ? infoExtra.reasoning
+        : index === selected && typeof extra.reasoning === 'string' ? extra.reasoning : undefined
+
+      const node = appendEntry(tree, assistantEntry(swipe, reasoning || undefined, { ...context, ts: toTimestamp(info.send_date, ts) }), parentId)
+      if (index === selected)
+        selectedId = node.id
+    })
+    parentId = selectedId
+  }
+
+  tree.activeLeafId = parentId
+  const sessions = Object.keys(tree.entries).length > 0
+    ? [{ id: sessionId, title, createdAt: toTimestamp(header?.create_date, now), updatedAt, tree }]
+    : []
+
+  return { format: 'sillytavern', sessions, issues }
+}
+
+interface ChatGPTMessageNode {
+  message?: {
+    author?: { role?: string }
+    content?: { content_type?: string, parts?: unknown[], thoughts?: { content?: unknown }[] }
+    create_time?: number | null
+    metadata?: { is_visually_hidden_from_conversation?: boolean }
+  } | null
+  parent?: string | null
+  children?: string[]
+}
+
+type ChatGPTMessage = NonNullable<ChatGPTMessageNode['message']>
+
+/**
+ * What a node of the mapping adds to the conversation: a message, reasoning for the reply that follows, or nothing.
+ */
+function readChatGPTMessage(message: ChatGPTMessage | undefined): { text?: string, reasoning?: string, issues: { reason: ChatImportIssueReason, detail?: string }[] } {
+  const role = message?.author?.role
+  const contentType = message?.content?.content_type
+  // Empty roots, ChatGPT's own system prompt and hidden context are not part of the conversation
+  if (!message || role === 'system' || message.metadata?.is_visually_hidden_from_conversation)
+    return { issues: [] }
+
+  // Reasoning of o-series models is a node of its own, the recap only summarizes it
+  if (role === 'assistant' && contentType === 'thoughts') {
+    const thoughts = (message.content?.thoughts ?? []).map(thought => thought.content).filter((text): text is string => typeof text === 'string')
+    return { reasoning: thoughts.join('\n\n') || undefined, issues: [] }
+  }
+  if (role === 'assistant' && contentType === 'reasoning_recap')
+    return { issues: [] }
+
+  if ((role !== 'user' && role !== 'assistant') || (contentType !== 'text' && contentType !== 'multimodal_text'))
+    return { issues: [{ reason: 'unsupported-content', detail: role === 'tool' ? 'tool' : contentType }] }
+
+  const parts = Array.isArray(message.content?.parts) ? message.content.parts : []
+  const text = parts.filter((part): part is string => typeof part === 'string').join('\n').trim()
+  const issues: { reason: ChatImportIssueReason }[] = []
+  // Uploaded files and generated images are not part of the export
+  if (parts.some(part => typeof part !== 'string'))
+    issues.push({ reason: 'attachments-dropped' })
+  if (!text)
+    issues.push({ reason: 'empty' })
+
+  return { text: text || undefined, issues }
+}
+
+/**
+ * One conversation of a ChatGPT export. The mapping tree is kept: edits and regenerations become sibling
+ * branches, and nodes that can't be imported are skipped with their children attached to the closest imported ancestor.
+ */
+function importChatGPTConversation(conversation: Record<string, unknown>, index: number, issues: ChatImportIssue[]): ImportedChatSession | undefined {
+  const mapping = conversation.mapping as Record<string, ChatGPTMessageNode>
+  const now = Date.now()
+  const sessionId = nanoid()
+  const title = typeof conversation.title === 'string' && conversation.title ? conversation.title : `ChatGPT ${index + 1}`
+  const createdAt = typeof conversation.create_time === 'number' ? conversation.create_time * 1000 : now
+  const tree: ChatHistoryTree = { entries: {} }
+  // Entry each node resolved to: its own, or the one of its closest imported ancestor
+  const resolved = new Map<string, string | undefined>()
+
+  const roots = Object.entries(mapping).filter(([, node]) => !node?.parent || !mapping[node.parent]).map(([id]) => id)
+  // Walked depth first without recursion, conversations can be thousands of messages deep
+  const pending: { nodeId: string, parentId?: string, reasoning?: string }[] = roots.reverse().map(nodeId => ({ nodeId }))
+
+  while (pending.length > 0) {
+    const { nodeId, parentId, reasoning } = pending.pop()!
+    if (resolved.has(nodeId))
+      continue
+
+    const node: ChatGPTMessageNode | undefined = isRecord(mapping[nodeId]) ? mapping[nodeId] : undefined
+    const message = isRecord(node?.message) ? node.message : undefined
+    const read = readChatGPTMessage(message)
+    for (const { reason, detail } of read.issues)
+      issues.push({ session: title, position: nodeId, reason, ...(detail ? { detail } : {}) })
+
+    let entryId = parentId
+    let nextReasoning = [reasoning, read.reasoning].filter(Boolean).join('\n\n') || undefined
+    if (read.text) {
+      const context = {
+        sessionId,
+        source: 'chatgpt' as const,
+        ts: typeof message?.create_time === 'number' ? message.create_time * 1000 : createdAt,
+      }
+      const entry: ChatEntry = message?.author?.role === 'user'
+        ? { role: 'user', content: read.text, context }
+        : assistantEntry(read.text, reasoning, context)
+      entryId = appendEntry(tree, { ...entry, id: nodeId }, parentId).id
+      nextReasoning = undefined
+    }
+
+    resolved.set(nodeId, entryId)
+    for (const childId of [...(Array.isArray(node?.children) ? node.children : [])].reverse()) {
+      if (mapping[childId])
+        pending.push({ nodeId: childId, parentId: entryId, reasoning: nextReasoning })
+    }
+  }
+
+  if (Object.keys(tree.entries).length === 0)
+    return undefined
+
+  const currentNode = typeof conversation.current_node === 'string' ? resolved.get(conversation.current_node) : undefined
+  tree.activeLeafId = currentNode ?? tree.activeLeafId
+
+  return {
+    id: sessionId,
+    title,
+    createdAt,
+    updatedAt: typeof conversation.update_time === 'number' ? conversation.update_time * 1000 : createdAt,
+    tree,
+  }
+}
+
+/**
+ * `conversations.json` of a ChatGPT data export, or a single conversation out of it.
+ */
+export function importChatGPTConversations(payload: unknown): ChatImportResult {
+  const conversations = Array.isArray(payload) ? payload : [payload]
+  if (!conversations.some(conversation => isRecord(conversation) && isRecord(conversation.mapping)))
+    throw new ChatImportError('No ChatGPT conversations were found')
+
+  const sessions: ImportedChatSession[] = []
+  const issues: ChatImportIssue[] = []
+  conversations.forEach((conversation, index) => {
+    if (!isRecord(conversation) || !isRecord(conversation.mapping)) {
+      issues.push({ session: `ChatGPT ${index + 1}`, position: String(index), reason: 'invalid-message' })
+      return
+    }
+
+    const session = importChatGPTConversation(conversation, index, issues)
+    if (session)
+      sessions.push(session)
+  })
+
+  return { format: 'chatgpt', sessions, issues }
+}
+
+/**
+ * Reads any supported chat export, telling the format apart from the content.
+ */
+export function parseChatImport(fileName: string, text: string): ChatImportResult {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text)
+  }
+  catch (error) {
+    // A SillyTavern chat is one JSON document per line
+    if (/\.jsonl$/i.test(fileName) || text.trimStart().startsWith('{'))
+      return importSillyTavernChat(text, fileName)
+
+    throw new ChatImportError('The file is not valid JSON', error)
+  }
+
+  const isChatGPT = (value: unknown) => isRecord(value) && isRecord(value.mapping)
+  if (Array.isArray(payload) ? payload.some(isChatGPT) : isChatGPT(payload))
+    return importChatGPTConversations(payload)
+  // A chat with only its header line parses as a single document too
+  if (isRecord(payload) && ('chat_metadata' in payload || 'mes' in payload))
+    return importSillyTavernChat(text, fileName)
+
+  return importAiriSessions(payload)
+}
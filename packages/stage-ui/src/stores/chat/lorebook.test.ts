@@ -0,0 +1,94 @@
+import type { ccv3 } from '@proj-airi/ccc'
+
+import { describe, expect, it } from 'vitest'
+
+import { scanLorebook } from './lorebook'
+
+function entry(content: string, fields: Partial<ccv3.CharacterBookEntry> = {}): ccv3.CharacterBookEntry {
+  return {
+    keys: [],
+    content,
+    enabled: true,
+    insertion_order: 0,
+    extensions: {},
+    ...fields,
+  }
+}
+
+function book(entries: ccv3.CharacterBookEntry[], fields: Partial<ccv3.CharacterBook> = {}): ccv3.CharacterBook {
+  return { entries, extensions: {}, ...fields }
+}
+
+describe('lorebook', () => {
+  it('triggers entries on keys within the scan depth', () => {
+    const result = scanLorebook(book([
+      entry('Eldoria is a magical forest.', { keys: ['eldoria'] }),
+      entry('Beasts roam at night.', { keys: ['beast'] }),
+    ], { scan_depth: 1 }), ['I fought a beast', 'Where is Eldoria?'])
+
+    expect(result.before).toEqual(['Eldoria is a magical forest.'])
+    expect(result.report.entries[0].matchedKeys).toEqual(['eldoria'])
+  })
+
+  it('respects constant, selective, case sensitive and disabled entries', () => {
+    const result = scanLorebook(book([
+      entry('always', { constant: true }),
+      entry('selective', { keys: ['tea'], selective: true, secondary_keys: ['herbal'] }),
+      entry('selective miss', { keys: ['tea'], selective: true, secondary_keys: ['coffee'] }),
+      entry('case', { keys: ['Seraphina'], case_sensitive: true }),
+      entry('case miss', { keys: ['HERBAL'], case_sensitive: true }),
+      entry('disabled', { keys: ['tea'], enabled: false }),
+    ]), ['Some herbal TEA for Seraphina'])
+
+    expect(result.before).toEqual(['always', 'selective', 'case'])
+  })
+
+  it('orders by insertion order and splits by position', () => {
+    const result = scanLorebook(book([
+      entry('second', { keys: ['a'], insertion_order: 2 }),
+      entry('after', { keys: ['a'], insertion_order: 0, position: 'after_char' }),
+      entry('first', { keys: ['a'], insertion_order: 1, position: 'before_char' }),
+    ]), ['a'])
+
+    expect(result.before).toEqual(['first', 'second'])
+    expect(result.after).toEqual(['after'])
+  })
+
+  it('discards the lowest priority entries over the token budget', () => {
+    const content = (label: string) => `${label} ${'x'.repeat(36)}`
+    const result = scanLorebook(book([
+      entry(content('high'), { keys: ['a'], priority: 100 }),
+      entry(content('low'), { keys: ['a'], priority: 1 }),
+      entry(content('middle'), { keys: ['a'], priority: 50 }),
+    ], { token_budget: 25 }), ['a'])
+
+    expect(result.report.discarded.map(activation => activation.priority)).toEqual([1])
+    expect(result.before).toEqual([content('high'), content('middle')])
+    expect(result.report.tokens).toBeLessThanOrEqual(25)
+  })
+
+  it('scans triggered entries again when recursive scanning is on', () => {
+    const entries = [
+      entry('Seraphina guards the glade.', { keys: ['seraphina'] }),
+      entry('The glade heals wounds.', { keys: ['glade'] }),
+    ]
+
+    expect(scanLorebook(book(entries), ['Hi Seraphina']).before).toHaveLength(1)
+
+    const result = scanLorebook(book(entries, { recursive_scanning: true }), ['Hi Seraphina'])
+    expect(result.before).toEqual(['Seraphina guards the glade.', 'The glade heals wounds.'])
+    expect(result.report.entries[1].recursive).toBe(true)
+  })
+
+  it('scans constant entries recursively when there are no messages to scan', () => {
+    const entries = [
+      entry('Seraphina guards the glade.', { constant: true }),
+      entry('The glade heals wounds.', { keys: ['glade'] }),
+    ]
+
+    expect(scanLorebook(book(entries, { recursive_scanning: true }), []).before).toEqual(['Seraphina guards the glade.', 'The glade heals wounds.'])
+    const result = scanLorebook(book(entries, { recursive_scanning: true, scan_depth: 0 }), ['Hello'])
+    expect(result.before).toHaveLength(2)
+    expect(result.report.entries[1].recursive).toBe(true)
+  })
+})
@@ -0,0 +1,169 @@
+import type { ccv3 } from '@proj-airi/ccc'
+
+import { estimateTextTokens } from './context-budget'
+
+export interface LorebookActivation {
+  /** Position of the entry in `character_book.entries` */
+  index: number
+  name?: string
+  content: string
+  position: NonNullable<ccv3.CharacterBookEntry['position']>
+  insertionOrder: number
+  priority: number
+  tokens: number
+  /** Keys found in the scanned text, empty for constant entries */
+  matchedKeys: string[]
+  constant: boolean
+  /** Triggered by the content of another entry rather than by the messages */
+  recursive: boolean
+}
+
+/**
+ * Entries a scan activated, reported through `compose-report`.
+ */
+export interface LorebookReport {
+  /** Entries that made it into the prompt, in insertion order */
+  entries: LorebookActivation[]
+  /** Entries that triggered but did not fit the token budget */
+  discarded: LorebookActivation[]
+  tokens: number
+  tokenBudget?: number
+  scanDepth: number
+}
+
+export interface LorebookResult {
+  /** Contents to place before the character definitions */
+  before: string[]
+  /** Contents to place after the character definitions */
+  after: string[]
+  report: LorebookReport
+}
+
+// SillyTavern defaults, used when the book leaves them out
+const DEFAULT_SCAN_DEPTH = 2
+const DEFAULT_PRIORITY = 10
+// Stops recursive scanning on entries that keep triggering each other
+const MAX_RECURSION_STEPS = 8
+
+function matchKeys(keys: string[] | undefined, text: string, lowerText: string, caseSensitive: boolean) {
+  return (keys ?? []).filter((key) => {
+    const trimmed = key.trim()
+    if (!trimmed)
+      return false
+
+    return caseSensitive ? text.includes(trimmed) : lowerText.includes(trimmed.toLowerCase())
+  })
+}
+
+/**
+ * Keys of `entry` that trigger it in `text`, or `undefined` when it does not trigger.
+ *
+ * Selective entries need a match in both `keys` and `secondary_keys`.
+ */
+function triggerEntry(entry: ccv3.CharacterBookEntry, text: string, lowerText: string) {
+  const caseSensitive = entry.case_sensitive ?? false
+  const matched = matchKeys(entry.keys, text, lowerText, caseSensitive)
+  if (matched.length === 0)
+    return undefined
+
+  if (entry.selective && entry.secondary_keys?.some(key => key.trim())) {
+    const secondary = matchKeys(entry.secondary_keys, text, lowerText, caseSensitive)
+    if (secondary.length === 0)
+      return undefined
+
+    matched.push(...secondary)
+  }
+
+  return matched
+}
+
+/**
+ * Finds the lorebook entries triggered by the latest messages.
+ *
+ * @param book Character book of the active card
+ * @param messages Texts of the conversation, oldest first, only the last `scan_depth` are scanned
+ */
+export function scanLorebook(book: ccv3.CharacterBook, messages: string[]): LorebookResult {
+  const scanDepth = book.scan_depth ?? DEFAULT_SCAN_DEPTH
+  const tokenBudget = book.token_budget && book.token_budget > 0 ? book.token_budget : undefined
+
+  const activations = new Map<number, LorebookActivation>()
+  const activate = (index: number, entry: ccv3.CharacterBookEntry, matchedKeys: string[], recursive: boolean) => {
+    activations.set(index, {
+      index,
+      name: entry.name || entry.comment || undefined,
+      content: entry.content,
+      position: entry.position ?? 'before_char',
+      insertionOrder: entry.insertion_order ?? 0,
+      priority: entry.priority ?? DEFAULT_PRIORITY,
+      tokens: estimateTextTokens(entry.content),
+      matchedKeys,
+      constant: !!entry.constant,
+      recursive,
+    })
+  }
+
+  const candidates = book.entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => entry.enabled !== false && entry.content.trim())
+
+  const constants = candidates
+    .filter(({ entry }) => entry.constant)
+    .map(({ entry, index }) => {
+      activate(index, entry, [], false)
+      return index
+    })
+
+  const contentOf = (indexes: number[]) => indexes.map(index => activations.get(index)!.content).join('\n')
+  const messageText = scanDepth > 0 ? messages.slice(-scanDepth).join('\n') : ''
+  // With no message to scan, recursion still starts from the constant entries
+  const startFromConstants = !messageText && !!book.recursive_scanning
+  let text = startFromConstants ? contentOf(constants) : messageText
+  for (let step = startFromConstants ? 1 : 0; step <= MAX_RECURSION_STEPS && text; step++) {
+    const lowerText = text.toLowerCase()
+    const triggered: number[] = []
+
+    for (const { entry, index } of candidates) {
+      if (activations.has(index))
+        continue
+
+      const matchedKeys = triggerEntry(entry, text, lowerText)
+      if (!matchedKeys)
+        continue
+
+      activate(index, entry, matchedKeys, step > 0)
+      triggered.push(index)
+    }
+
+    if (!book.recursive_scanning)
+      break
+
+    // The next pass only scans what was just added, earlier text already had its chance
+    text = contentOf([...(step === 0 ? constants : []), ...triggered])
+  }
+
+  const ordered = [...activations.values()]
+    .sort((a, b) => a.insertionOrder - b.insertionOrder || a.index - b.index)
+
+  const discarded: LorebookActivation[] = []
+  let tokens = ordered.reduce((sum, activation) => sum + activation.tokens, 0)
+  if (tokenBudget !== undefined && tokens > tokenBudget) {
+    // Lowest priority goes first, entries inserted last go first among equals
+    const byDiscardOrder = [...ordered].sort((a, b) => a.priority - b.priority || b.insertionOrder - a.insertionOrder || b.index - a.index)
+    for (const activation of byDiscardOrder) {
+      if (tokens <= tokenBudget)
+        break
+
+      discarded.push(activation)
+      tokens -= activation.tokens
+    }
+  }
+
+  const entries = ordered.filter(activation => !discarded.includes(activation))
+
+  return {
+    before: entries.filter(activation => activation.position === 'before_char').map(activation => activation.content),
+    after: entries.filter(activation => activation.position === 'after_char').map(activation => activation.content),
+    report: { entries, discarded, tokens, tokenBudget, scanDepth },
+  }
+}
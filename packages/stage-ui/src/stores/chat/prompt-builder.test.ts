@@ -0,0 +1,75 @@
+import type { Card } from '@proj-airi/ccc'
+import type { Message } from '@xsai/shared-chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { buildSystemPrompt, injectHistoryInstructions } from './prompt-builder'
+
+const card: Card = {
+  name: 'Seraphina',
+  version: '1.0.0',
+  systemPrompt: 'Stay in character.',
+  description: 'A guardian of the forest.',
+  personality: 'Caring and protective.',
+  scenario: 'You wake up in her glade.',
+  messageExample: [['{{user}}: Who are you?', '{{char}}: I am Seraphina.']],
+  postHistoryInstructions: 'Reply in two paragraphs.',
+  extensions: {
+    depth_prompt: { depth: 2, prompt: '{{char}} is worried.', role: 'system' },
+  },
+}
+
+describe('prompt builder', () => {
+  it('builds every card section in the default order', () => {
+    expect(buildSystemPrompt(card, { lorebook: { before: ['Eldoria is a forest.'], after: ['Beasts roam.'] } })).toBe([
+      'Stay in character.',
+      'Eldoria is a forest.',
+      'A guardian of the forest.',
+      'Caring and protective.',
+      'Scenario: You wake up in her glade.',
+      'Beasts roam.',
+      'Example conversations between {{char}} and {{user}}:',
+      '<START>',
+      '{{user}}: Who are you?',
+      '{{char}}: I am Seraphina.',
+    ].join('\n'))
+  })
+
+  it('follows a custom order and skips empty sections', () => {
+    expect(buildSystemPrompt({ ...card, personality: '' }, { order: ['personality', 'scenario', 'description'] }))
+      .toBe('Scenario: You wake up in her glade.\nA guardian of the forest.')
+  })
+
+  it('injects the depth prompt and post-history instructions into the history', () => {
+    const messages: Message[] = [
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'reply' },
+      { role: 'user', content: 'second' },
+    ]
+
+    const result = injectHistoryInstructions(messages, card, { render: text => text.replace('{{char}}', 'Seraphina') })
+    expect(result.map(message => message.content)).toEqual([
+      'system',
+      'first',
+      'Seraphina is worried.',
+      'reply',
+      'second',
+      'Reply in two paragraphs.',
+    ])
+    expect(messages).toHaveLength(4)
+  })
+
+  it('never places the depth prompt above the system prompt', () => {
+    const result = injectHistoryInstructions(
+      [{ role: 'system', content: 'system' }, { role: 'user', content: 'hi' }],
+      { ...card, postHistoryInstructions: '', extensions: { depth_prompt: { depth: 10, prompt: 'deep', role: 'user' } } },
+    )
+
+    expect(result).toEqual([
+      { role: 'system', content: 'system' },
+      { role: 'user', content: 'deep' },
+      { role: 'user', content: 'hi' },
+    ])
+  })
+})
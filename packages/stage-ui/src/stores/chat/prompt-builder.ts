@@ -0,0 +1,105 @@
+import type { Card } from '@proj-airi/ccc'
+import type { Message } from '@xsai/shared-chat'
+
+/**
+ * Parts of the character definitions that can be arranged in the system prompt.
+ */
+export type PromptSection
+  = | 'systemPrompt'
+    | 'lorebookBefore'
+    | 'description'
+    | 'personality'
+    | 'scenario'
+    | 'lorebookAfter'
+    | 'examples'
+
+/**
+ * Same layout as the default SillyTavern story string.
+ */
+export const DEFAULT_PROMPT_ORDER: PromptSection[] = [
+  'systemPrompt',
+  'lorebookBefore',
+  'description',
+  'personality',
+  'scenario',
+  'lorebookAfter',
+  'examples',
+]
+
+export interface SystemPromptOptions {
+  /** Sections to include, in order, defaults to {@link DEFAULT_PROMPT_ORDER} */
+  order?: PromptSection[]
+  /** Triggered lorebook contents, placed around the character definitions */
+  lorebook?: {
+    before: string[]
+    after: string[]
+  }
+}
+
+export interface HistoryInstructionsOptions {
+  /** Applied to the injected texts, used to expand prompt macros */
+  render?: (text: string) => string
+}
+
+const DEPTH_PROMPT_ROLES = ['system', 'user', 'assistant'] as const
+
+function formatExamples(examples: Card['messageExample']) {
+  const dialogues = (examples ?? [])
+    .filter(example => example.length > 0)
+    .map(example => `<START>\n${example.join('\n')}`)
+
+  if (dialogues.length === 0)
+    return ''
+
+  return `Example conversations between {{char}} and {{user}}:\n${dialogues.join('\n')}`
+}
+
+/**
+ * Builds the system prompt of `card` from its sections in the configured order.
+ *
+ * Macros are kept, they are expanded when the messages are composed.
+ */
+export function buildSystemPrompt(card: Card, options: SystemPromptOptions = {}) {
+  const sections: Record<PromptSection, string | undefined> = {
+    systemPrompt: card.systemPrompt,
+    lorebookBefore: options.lorebook?.before.join('\n'),
+    description: card.description,
+    personality: card.personality,
+    scenario: card.scenario?.trim() ? `Scenario: ${card.scenario}` : undefined,
+    lorebookAfter: options.lorebook?.after.join('\n'),
+    examples: formatExamples(card.messageExample),
+  }
+
+  return (options.order ?? DEFAULT_PROMPT_ORDER)
+    .map(section => sections[section]?.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Inserts the instructions of `card` that live inside the history: the `depth_prompt`
+ * extension at its depth from the end, and the post-history instructions right after the latest user turn.
+ */
+export function injectHistoryInstructions(messages: Message[], card: Card, options: HistoryInstructionsOptions = {}) {
+  const render = options.render ?? (text => text)
+  const result = [...messages]
+  // Nothing is inserted above the system prompt
+  const historyStart = result.findIndex(message => message.role !== 'system')
+  const firstHistoryIndex = historyStart >= 0 ? historyStart : result.length
+
+  const depthPrompt = card.extensions?.depth_prompt
+  if (depthPrompt?.prompt?.trim()) {
+    const role = DEPTH_PROMPT_ROLES.find(role => role === depthPrompt.role) ?? 'system'
+    const depth = Math.max(0, depthPrompt.depth ?? 0)
+    const index = Math.max(firstHistoryIndex, result.length - depth)
+    result.splice(index, 0, { role, content: render(depthPrompt.prompt) } as Message)
+  }
+
+  if (card.postHistoryInstructions?.trim()) {
+    const lastUserIndex = result.findLastIndex(message => message.role === 'user')
+    const index = lastUserIndex >= 0 ? lastUserIndex + 1 : result.length
+    result.splice(index, 0, { role: 'system', content: render(card.postHistoryInstructions) })
+  }
+
+  return result
+}
@@ -0,0 +1,61 @@
+import type { ChatAssistantMessage } from '../../types/chat'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { createReplyStream } from './reply-stream'
+
+function emptyMessage(): ChatAssistantMessage {
+  return { role: 'assistant', content: '', slices: [], tool_results: [] }
+}
+
+describe('createReplyStream', () => {
+  it('splits text, markers and reasoning into the message', async () => {
+    const message = emptyMessage()
+    const specials: string[] = []
+    const onFirstOutput = vi.fn()
+    const replyStream = createReplyStream(message, { onSpecial: special => void specials.push(special), onFirstOutput })
+
+    await replyStream.onStreamEvent({ type: 'reasoning-delta', text: 'Greet back.' })
+    await replyStream.onStreamEvent({ type: 'text-delta', text: '<think>Be warm.</think>Hello <|EMOTE:happy|>there' })
+    await replyStream.end()
+
+    expect(message.content).toBe('Hello there')
+    expect(message.slices).toEqual([
+      { type: 'reasoning', text: 'Greet back.Be warm.' },
+      { type: 'text', text: 'Hello there' },
+    ])
+    expect(specials).toEqual(['<|EMOTE:happy|>'])
+    expect(replyStream.text).toBe('Hello <|EMOTE:happy|>there')
+    expect(replyStream.reasoningSeen).toBe(true)
+    expect(replyStream.streamed).toBe(true)
+    expect(onFirstOutput).toHaveBeenCalledTimes(1)
+  })
+
+  it('collects the usage of every step once and forgets it on reset', async () => {
+    const replyStream = createReplyStream(emptyMessage())
+    const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+
+    await replyStream.onStreamEvent({ type: 'finish', usage })
+    await replyStream.onStreamEvent({ type: 'finish', usage })
+    expect(replyStream.usageSteps).toEqual([usage])
+
+    replyStream.resetUsage()
+    expect(replyStream.usageSteps).toEqual([])
+    expect(replyStream.streamed).toBe(false)
+  })
+
+  it('hands tool calls over, throws stream errors and ignores events after an abort', async () => {
+    const abortController = new AbortController()
+    const onToolCall = vi.fn()
+    const replyStream = createReplyStream(emptyMessage(), { abortSignal: abortController.signal, onToolCall })
+
+    await replyStream.onStreamEvent({ type: 'tool-call', toolCallId: 'call-1', toolCallType: 'function', toolName: 'search', args: '{}' })
+    expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({ toolCallId: 'call-1' }))
+    await expect(replyStream.onStreamEvent({ type: 'error', error: new Error('overloaded') })).rejects.toThrow('overloaded')
+
+    abortController.abort()
+    await replyStream.onStreamEvent({ type: 'text-delta', text: 'too late' })
+    await replyStream.end()
+    expect(replyStream.text).toBe('')
+  })
+})
@@ -0,0 +1,136 @@
+import type { Usage } from '@xsai/shared-chat'
+
+import type { ChatAssistantMessage } from '../../types/chat'
+import type { StreamEvent } from '../llm'
+
+import { useLlmmarkerParser } from '../../composables/llmmarkerParser'
+import { useReasoningParser } from '../../composables/reasoningParser'
+
+export interface ReplyStreamOptions {
+  /** Events arriving once it is aborted are dropped */
+  abortSignal?: AbortSignal
+  /** Called with the text of the reply as it is parsed, after it was added to the message */
+  onLiteral?: (literal: string) => void | Promise<void>
+  onSpecial?: (special: string) => void | Promise<void>
+  onToolCall?: (event: Extract<StreamEvent, { type: 'tool-call' }>) => void | Promise<void>
+  onToolResult?: (event: Extract<StreamEvent, { type: 'tool-result' }>) => void | Promise<void>
+  /** Called once, on the first text, reasoning or tool call of the reply */
+  onFirstOutput?: () => void
+  /** See `useLlmmarkerParser` */
+  minLiteralEmitLength?: number
+}
+
+// Consecutive text or reasoning is merged into one slice, so markdown renders across chunks
+export function appendSliceText(message: ChatAssistantMessage, type: 'text' | 'reasoning', text: string) {
+  const lastSlice = message.slices.at(-1)
+  if (lastSlice?.type === type) {
+    lastSlice.text += text
+    return
+  }
+
+  message.slices.push({ type, text })
+}
+
+/**
+ * Streams the events of a chat request into `message`: text and markers go through the marker
+ * parser, inline `<think>` blocks and reasoning deltas into reasoning slices, and the usage of
+ * every step is collected. Pass `onStreamEvent` to the request and call `end` once it settled.
+ */
+export function createReplyStream(message: ChatAssistantMessage, options: ReplyStreamOptions = {}) {
+  // Reply text with its markers, reasoning left out
+  let text = ''
+  let streamed = false
+  let reasoningSeen = false
+  // Usage reported by each step of the reply, a step can repeat the same object on a second `finish`
+  let usageSteps: Usage[] = []
+
+  const parser = useLlmmarkerParser({
+    onLiteral: async (literal) => {
+      message.content += literal
+      appendSliceText(message, 'text', literal)
+      await options.onLiteral?.(literal)
+    },
+    onSpecial: options.onSpecial,
+    minLiteralEmitLength: options.minLiteralEmitLength,
+  })
+
+  // Reasoning goes straight into its own slice, it is never spoken nor parsed for markers
+  const appendReasoning = (reasoning: string) => {
+    reasoningSeen = true
+    appendSliceText(message, 'reasoning', reasoning)
+  }
+  const reasoningParser = useReasoningParser({
+    onContent: async (content) => {
+      text += content
+      await parser.consume(content)
+    },
+    onReasoning: appendReasoning,
+  })
+
+  async function onStreamEvent(event: StreamEvent) {
+    if (options.abortSignal?.aborted)
+      return
+
+    if (!streamed && (event.type === 'text-delta' || event.type === 'reasoning-delta' || event.type === 'tool-call')) {
+      streamed = true
+      options.onFirstOutput?.()
+    }
+
+    switch (event.type) {
+      case 'tool-call':
+        await options.onToolCall?.(event)
+        break
+      case 'tool-result':
+        await options.onToolResult?.(event)
+        break
+      case 'text-delta':
+        await reasoningParser.consume(event.text)
+        break
+      case 'reasoning-delta':
+        appendReasoning(event.text)
+        break
+      case 'finish':
+        if (event.usage && !usageSteps.includes(event.usage))
+          usageSteps.push(event.usage)
+        break
+      case 'error':
+        throw event.error ?? new Error('Stream error')
+    }
+  }
+
+  /**
+   * Flushes the text still held back by the parsers.
+   */
+  async function end() {
+    await reasoningParser.end()
+    await parser.end()
+  }
+
+  /**
+   * Forgets the usage of a failed attempt, before the request is sent again.
+   */
+  function resetUsage() {
+    usageSteps = []
+  }
+
+  return {
+    onStreamEvent,
+    end,
+    resetUsage,
+    get text() {
+      return text
+    },
+    /** Whether any output arrived, from then on a failure can't be retried without repeating it */
+    get streamed() {
+      return streamed
+    },
+    get reasoningSeen() {
+      return reasoningSeen
+    },
+    get usageSteps() {
+      return usageSteps
+    },
+  }
+}
+
+export type ReplyStream = ReturnType<typeof createReplyStream>
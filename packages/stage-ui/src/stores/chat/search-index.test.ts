@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+
+import { createChatSearchIndex } from './search-index'
+
+describe('chat search index', () => {
+  it('ranks hits across sessions and highlights the matched terms', () => {
+    const index = createChatSearchIndex()
+    index.replaceSession('travel', [
+      { role: 'system', content: 'You are a travel assistant' },
+      { role: 'user', content: 'Which trains go from Tokyo to Kyoto?' },
+      { role: 'assistant', content: 'The Shinkansen connects Tokyo and Kyoto in about two hours.', slices: [], tool_results: [] },
+    ])
+    index.replaceSession('cooking', [
+      { role: 'user', content: [{ type: 'text', text: 'How long should I boil an egg?' }] },
+      {
+        role: 'assistant',
+        content: '',
+        slices: [{ type: 'text', text: 'Let me check.' }],
+        tool_results: [{ id: 'call-1', result: 'Boil for 7 minutes for a soft egg in Kyoto style' }],
+      },
+    ])
+
+    const hits = index.search('kyoto')
+    expect(hits.map(hit => [hit.sessionId, hit.messageIndex])).toEqual(expect.arrayContaining([
+      ['travel', 1],
+      ['travel', 2],
+      ['cooking', 1],
+    ]))
+    // The system prompt is not indexed
+    expect(index.search('assistant')).toEqual([])
+
+    const [hit] = index.search('shinkan')
+    expect(hit).toMatchObject({ sessionId: 'travel', messageIndex: 2, role: 'assistant' })
+    expect(hit.snippet.filter(segment => segment.highlighted).map(segment => segment.text)).toEqual(['Shinkan'])
+
+    // Every term has to match
+    expect(index.search('boil minutes').map(hit => hit.messageIndex)).toEqual([1])
+  })
+
+  it('matches CJK text and follows incremental updates', () => {
+    const index = createChatSearchIndex()
+    index.addMessage('default', 1, { role: 'user', content: '今天天气怎么样' })
+    expect(index.search('天气')).toHaveLength(1)
+
+    index.addMessage('default', 1, { role: 'user', content: '明天去哪里玩' })
+    expect(index.search('天气')).toEqual([])
+    expect(index.search('哪里')[0].messageIndex).toBe(1)
+
+    index.removeSession('default')
+    expect(index.size).toBe(0)
+  })
+})
@@ -0,0 +1,282 @@
+import type { ChatEntry } from '../chat'
+
+export interface ChatSearchSnippetSegment {
+  text: string
+  highlighted: boolean
+}
+
+export interface ChatSearchHit {
+  sessionId: string
+  /** Position of the message in the active branch of the session at indexing time */
+  messageIndex: number
+  role: ChatEntry['role']
+  score: number
+  snippet: ChatSearchSnippetSegment[]
+}
+
+interface ChatSearchDocument {
+  sessionId: string
+  messageIndex: number
+  role: ChatEntry['role']
+  text: string
+  length: number
+}
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2
+const B = 0.75
+const SNIPPET_RADIUS = 60
+
+// Han, Hiragana, Katakana and Hangul are written without spaces, they are indexed as character bigrams
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu
+
+function tokenize(text: string) {
+  const tokens: string[] = []
+  for (const [word] of text.normalize('NFKC').toLowerCase().matchAll(TOKEN_PATTERN)) {
+    let latin = ''
+    let cjk = ''
+    const flushLatin = () => {
+      if (latin)
+        tokens.push(latin)
+      latin = ''
+    }
+    const flushCjk = () => {
+      if (cjk.length === 1)
+        tokens.push(cjk)
+      for (let i = 0; i < cjk.length - 1; i++)
+        tokens.push(cjk.slice(i, i + 2))
+      cjk = ''
+    }
+
+    for (const char of word) {
+      if (CJK_PATTERN.test(char)) {
+        flushLatin()
+        cjk += char
+      }
+      else {
+        flushCjk()
+        latin += char
+      }
+    }
+
+    flushLatin()
+    flushCjk()
+  }
+
+  return tokens
+}
+
+function partsToText(parts: unknown) {
+  if (typeof parts === 'string')
+    return parts
+  if (!Array.isArray(parts))
+    return ''
+
+  return parts
+    .filter((part): part is { type: 'text', text: string } => part?.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('\n')
+}
+
+/**
+ * Searchable text of a history entry: message text, text slices and tool results.
+ */
+export function extractSearchableText(entry: ChatEntry) {
+  const texts = [partsToText(entry.content)]
+
+  if (entry.role === 'assistant') {
+    // Slices mirror the content for plain replies, only add them when the content is empty
+    if (!texts[0])
+      texts.push(...entry.slices.filter(slice => slice.type === 'text').map(slice => slice.text))
+
+    texts.push(...entry.tool_results.map(result => partsToText(result.result)))
+  }
+
+  return texts.filter(Boolean).join('\n')
+}
+
+/**
+ * Splits a window of `text` around the first match into plain and highlighted segments.
+ */
+function buildSnippet(text: string, query: string): ChatSearchSnippetSegment[] {
+  const needles = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const lowerText = text.toLowerCase()
+
+  const ranges: [number, number][] = []
+  for (const needle of needles) {
+    for (let at = lowerText.indexOf(needle); at >= 0; at = lowerText.indexOf(needle, at + needle.length))
+      ranges.push([at, at + needle.length])
+  }
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const firstMatch = ranges[0]?.[0] ?? 0
+  const start = Math.max(0, firstMatch - SNIPPET_RADIUS)
+  const end = Math.min(text.length, firstMatch + SNIPPET_RADIUS * 2)
+
+  const segments: ChatSearchSnippetSegment[] = []
+  const push = (from: number, to: number, highlighted: boolean) => {
+    if (to > from)
+      segments.push({ text: text.slice(from, to), highlighted })
+  }
+
+  let cursor = start
+  for (const [from, to] of ranges) {
+    if (from < cursor || from >= end)
+      continue
+
+    push(cursor, from, false)
+    push(from, Math.min(to, end), true)
+    cursor = Math.min(to, end)
+  }
+  push(cursor, end, false)
+
+  if (start > 0)
+    segments.unshift({ text: '…', highlighted: false })
+  if (end < text.length)
+    segments.push({ text: '…', highlighted: false })
+
+  return segments
+}
+
+/**
+ * In-memory inverted index over chat messages, ranked with BM25.
+ *
+ * Every query term has to match, the terms of latin script match as word prefixes
+ * so results show up while typing.
+ */
+export function createChatSearchIndex() {
+  const documents = new Map<string, ChatSearchDocument>()
+  // term -> document key -> term frequency
+  const postings = new Map<string, Map<string, number>>()
+  let totalLength = 0
+
+  const keyOf = (sessionId: string, messageIndex: number) => `${sessionId}\u0000${messageIndex}`
+
+  function removeDocument(key: string) {
+    const document = documents.get(key)
+    if (!document)
+      return
+
+    for (const term of new Set(tokenize(document.text))) {
+      const posting = postings.get(term)
+      posting?.delete(key)
+      if (posting?.size === 0)
+        postings.delete(term)
+    }
+
+    totalLength -= document.length
+    documents.delete(key)
+  }
+
+  /**
+   * Indexes one message, replacing whatever was indexed at the same position before.
+   */
+  function addMessage(sessionId: string, messageIndex: number, entry: ChatEntry) {
+    const key = keyOf(sessionId, messageIndex)
+    removeDocument(key)
+
+    // The system prompt is shared by every session and would only add noise
+    if (entry.role === 'system')
+      return
+
+    const text = extractSearchableText(entry)
+    const tokens = tokenize(text)
+    if (tokens.length === 0)
+      return
+
+    for (const term of tokens) {
+      const posting = postings.get(term) ?? new Map<string, number>()
+      posting.set(key, (posting.get(key) ?? 0) + 1)
+      postings.set(term, posting)
+    }
+
+    documents.set(key, { sessionId, messageIndex, role: entry.role, text, length: tokens.length })
+    totalLength += tokens.length
+  }
+
+  function removeSession(sessionId: string) {
+    for (const [key, document] of documents) {
+      if (document.sessionId === sessionId)
+        removeDocument(key)
+    }
+  }
+
+  function replaceSession(sessionId: string, messages: ChatEntry[]) {
+    removeSession(sessionId)
+    messages.forEach((entry, messageIndex) => addMessage(sessionId, messageIndex, entry))
+  }
+
+  function clear() {
+    documents.clear()
+    postings.clear()
+    totalLength = 0
+  }
+
+  function search(query: string, limit = 50): ChatSearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))]
+    if (queryTerms.length === 0 || documents.size === 0)
+      return []
+
+    const averageLength = totalLength / documents.size
+    let scores: Map<string, number> | undefined
+
+    for (const queryTerm of queryTerms) {
+      // Prefix matching is limited to latin terms, CJK bigrams have to match exactly
+      const matchingTerms = CJK_PATTERN.test(queryTerm)
+        ? (postings.has(queryTerm) ? [queryTerm] : [])
+        : [...postings.keys()].filter(term => term.startsWith(queryTerm))
+
+      const termScores = new Map<string, number>()
+      for (const term of matchingTerms) {
+        const posting = postings.get(term)!
+        const idf = Math.log(1 + (documents.size - posting.size + 0.5) / (posting.size + 0.5))
+        for (const [key, frequency] of posting) {
+          const length = documents.get(key)!.length
+          const score = idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * length / averageLength))
+          termScores.set(key, Math.max(termScores.get(key) ?? 0, score))
+        }
+      }
+
+      if (!scores) {
+        scores = termScores
+        continue
+      }
+
+      for (const [key, score] of scores) {
+        const termScore = termScores.get(key)
+        if (termScore === undefined)
+          scores.delete(key)
+        else
+          scores.set(key, score + termScore)
+      }
+    }
+
+    return [...(scores ?? [])]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([key, score]) => {
+        const document = documents.get(key)!
+        return {
+          sessionId: document.sessionId,
+          messageIndex: document.messageIndex,
+          role: document.role,
+          score,
+          snippet: buildSnippet(document.text, query),
+        }
+      })
+  }
+
+  return {
+    addMessage,
+    removeSession,
+    replaceSession,
+    clear,
+    search,
+    get size() {
+      return documents.size
+    },
+  }
+}
+
+export type ChatSearchIndex = ReturnType<typeof createChatSearchIndex>
@@ -0,0 +1,36 @@
+import type { ChatHistoryTree } from './history-tree'
+
+import localforage from 'localforage'
+
+/**
+ * Persistence backend of chat sessions, one record per session so that
+ * saving a message only rewrites the session it belongs to.
+ */
+export interface ChatSessionStorage {
+  listSessionIds: () => Promise<string[]>
+  loadSession: (sessionId: string) => Promise<ChatHistoryTree | null>
+  saveSession: (sessionId: string, tree: ChatHistoryTree) => Promise<void>
+  deleteSession: (sessionId: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+/**
+ * IndexedDB backed session storage, through the same localforage setup used for display models.
+ */
+export function createIndexedDBChatSessionStorage(): ChatSessionStorage {
+  const store = localforage.createInstance({
+    name: 'airi',
+    storeName: 'chat_sessions',
+    driver: localforage.INDEXEDDB,
+  })
+
+  return {
+    listSessionIds: () => store.keys(),
+    loadSession: sessionId => store.getItem<ChatHistoryTree>(sessionId),
+    saveSession: async (sessionId, tree) => {
+      await store.setItem(sessionId, tree)
+    },
+    deleteSession: sessionId => store.removeItem(sessionId),
+    clear: () => store.clear(),
+  }
+}
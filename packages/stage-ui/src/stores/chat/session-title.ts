@@ -0,0 +1,30 @@
+import type { ChatProvider } from '@xsai-ext/shared-providers'
+
+import { generateText } from '@xsai/generate-text'
+import { message } from '@xsai/utils-chat'
+
+import { parseShortReply } from './short-reply'
+
+const TITLE_PROMPT = 'Write a short title, at most 6 words, for the conversation below. Use the language of the conversation. Reply with the title only, without quotes or punctuation at the end.'
+const MAX_EXCERPT_LENGTH = 1000
+const MAX_TITLE_LENGTH = 60
+
+/**
+ * Asks the model for a short title of the first exchange of a session.
+ */
+export async function generateSessionTitle(model: string, chatProvider: ChatProvider, exchange: { role: 'user' | 'assistant', text: string }[], headers?: Record<string, string>) {
+  const transcript = exchange
+    .map(({ role, text }) => `${role}: ${text.slice(0, MAX_EXCERPT_LENGTH)}`)
+    .join('\n\n')
+
+  const { text } = await generateText({
+    ...chatProvider.chat(model),
+    headers,
+    messages: message.messages(
+      message.system(TITLE_PROMPT),
+      message.user(transcript),
+    ),
+  })
+
+  return (await parseShortReply(text ?? '', 'title')).slice(0, MAX_TITLE_LENGTH)
+}
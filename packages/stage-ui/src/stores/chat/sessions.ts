@@ -0,0 +1,32 @@
+import type { ToolOverrides } from '../tools'
+import type { ChatGroup } from './group'
+
+/**
+ * Everything the session switcher needs to know about a session without loading its history.
+ */
+export interface ChatSessionMeta {
+  id: string
+  /** Empty until the user or the auto-title pass names the session */
+  title: string
+  createdAt: number
+  updatedAt: number
+  pinned: boolean
+  /** AIRI card that was active when the session was created */
+  cardId?: string
+  /** Model of the latest reply */
+  model?: string
+  /** Tools switched on or off for this session only, by name */
+  tools?: ToolOverrides
+  /** Set on group sessions, where several cards take turns replying */
+  group?: ChatGroup
+}
+
+/**
+ * Pinned sessions first, then the most recently updated ones.
+ */
+export function compareSessions(a: ChatSessionMeta, b: ChatSessionMeta) {
+  if (a.pinned !== b.pinned)
+    return a.pinned ? -1 : 1
+
+  return b.updatedAt - a.updatedAt
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseShortReply } from './short-reply'
+
+describe('parseShortReply', () => {
+  it('keeps the first line without its heading, label, quotes and punctuation', async () => {
+    expect(await parseShortReply('# Title: "Planning a trip to Kyoto".\nHope that helps!', 'title')).toBe('Planning a trip to Kyoto')
+    expect(await parseShortReply('\n\n「旅行计划」。')).toBe('旅行计划')
+    expect(await parseShortReply('**Bob**')).toBe('Bob')
+  })
+
+  it('leaves reasoning out, an unclosed block included', async () => {
+    expect(await parseShortReply('<think>Alice spoke last</think>\nBob')).toBe('Bob')
+    expect(await parseShortReply('<think>Alice spoke last, so maybe')).toBe('')
+  })
+})
@@ -0,0 +1,37 @@
+import { useReasoningParser } from '../../composables/reasoningParser'
+
+const HEADING_PATTERN = /^#+\s*/
+// Quotes and emphasis around the answer, and the punctuation closing it
+const LEADING_WRAPPER_PATTERN = /^["'“”「『*]+/
+const TRAILING_WRAPPER_PATTERN = /["'“”」』*.。!！]+$/
+
+/**
+ * Reads a one line answer, such as a title or a name, out of what the model replied: reasoning is
+ * left out, an unclosed `<think>` included, and only the first line is kept, without a markdown
+ * heading, the `label:` it may repeat from the question, or the quotes and punctuation around it.
+ */
+export async function parseShortReply(text: string, label?: string) {
+  let content = ''
+  const reasoningParser = useReasoningParser({
+    onContent: (part) => {
+      content += part
+    },
+  })
+  await reasoningParser.consume(text)
+  await reasoningParser.end()
+
+  const [firstLine = ''] = content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+
+  let reply = firstLine.replace(HEADING_PATTERN, '')
+  if (label && reply.toLowerCase().startsWith(`${label.toLowerCase()}:`))
+    reply = reply.slice(label.length + 1)
+
+  return reply
+    .trim()
+    .replace(LEADING_WRAPPER_PATTERN, '')
+    .replace(TRAILING_WRAPPER_PATTERN, '')
+    .trim()
+}
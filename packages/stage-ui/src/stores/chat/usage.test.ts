@@ -0,0 +1,53 @@
+import type { ChatEntry } from '../chat'
+
+import { describe, expect, it } from 'vitest'
+
+import { computeCost, estimateUsage, fromProviderUsage, summarizeUsage } from './usage'
+
+function reply(provider: string, model: string, promptTokens: number, completionTokens: number, source: 'provider-based' | 'estimate-based' = 'provider-based'): ChatEntry {
+  return {
+    role: 'assistant',
+    content: '',
+    slices: [],
+    tool_results: [],
+    context: { sessionId: 'default', source: 'llm', ts: 0, meta: { provider, model } },
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, source },
+  }
+}
+
+describe('usage', () => {
+  it('sums the usage of every step', () => {
+    expect(fromProviderUsage([])).toBeUndefined()
+    expect(fromProviderUsage([
+      { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+      { prompt_tokens: 150, completion_tokens: 30, total_tokens: 180 },
+    ])).toEqual({ promptTokens: 250, completionTokens: 50, totalTokens: 300, source: 'provider-based' })
+  })
+
+  it('estimates usage when the provider reports none', () => {
+    const usage = estimateUsage([{ role: 'user', content: 'Hello there, how are you?' }], 'Fine, thanks!')
+    expect(usage.source).toBe('estimate-based')
+    expect(usage.completionTokens).toBe(4)
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens)
+  })
+
+  it('prices usage per million tokens', () => {
+    const usage = { promptTokens: 2_000_000, completionTokens: 500_000, totalTokens: 2_500_000, source: 'provider-based' as const }
+    expect(computeCost(usage, { input: 0.5, output: 2 })).toBe(2)
+    expect(computeCost(usage)).toBeUndefined()
+  })
+
+  it('totals usage per provider and model, skipping other entries', () => {
+    const summary = summarizeUsage([
+      { role: 'user', content: 'hi' },
+      reply('openai', 'gpt-4o', 1_000_000, 0),
+      reply('openai', 'gpt-4o-mini', 100, 50, 'estimate-based'),
+      reply('ollama', 'llama3', 10, 5),
+    ], { 'gpt-4o': { input: 3, output: 10 } })
+
+    expect(summary.total).toMatchObject({ promptTokens: 1_000_110, completionTokens: 55, messages: 3, estimatedMessages: 1, cost: 3 })
+    expect(summary.byProvider.openai).toMatchObject({ messages: 2, cost: 3 })
+    expect(summary.byProvider.ollama.cost).toBeUndefined()
+    expect(Object.keys(summary.byModel)).toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini', 'ollama/llama3'])
+  })
+})
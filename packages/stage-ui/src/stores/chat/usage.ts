@@ -0,0 +1,115 @@
+import type { WebSocketEvents } from '@proj-airi/server-sdk'
+import type { Message, Usage } from '@xsai/shared-chat'
+
+import type { ChatEntry } from '../chat'
+
+import { estimateMessageTokens, estimateTextTokens } from './context-budget'
+
+/**
+ * Token usage of one reply, same shape as the `output:gen-ai:chat:complete` event.
+ */
+export type TokenUsage = WebSocketEvents['output:gen-ai:chat:complete']['usage']
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+export interface UsageTotals {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** Replies counted */
+  messages: number
+  /** Replies whose usage was estimated locally */
+  estimatedMessages: number
+  /** Undefined when no counted reply has a price */
+  cost?: number
+}
+
+export interface UsageSummary {
+  total: UsageTotals
+  /** Keyed by provider id, replies without a known provider are under `unknown` */
+  byProvider: Record<string, UsageTotals>
+  /** Keyed by `provider/model` */
+  byModel: Record<string, UsageTotals>
+}
+
+/**
+ * Sums the usage reported by every step of a streamed reply.
+ */
+export function fromProviderUsage(steps: Usage[]): TokenUsage | undefined {
+  if (steps.length === 0)
+    return undefined
+
+  const promptTokens = steps.reduce((sum, step) => sum + step.prompt_tokens, 0)
+  const completionTokens = steps.reduce((sum, step) => sum + step.completion_tokens, 0)
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: steps.reduce((sum, step) => sum + (step.total_tokens || step.prompt_tokens + step.completion_tokens), 0),
+    source: 'provider-based',
+  }
+}
+
+/**
+ * Estimates the usage of a reply for providers that do not report it.
+ */
+export function estimateUsage(prompt: Message[], completion: string): TokenUsage {
+  const promptTokens = prompt.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+  const completionTokens = estimateTextTokens(completion)
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    source: 'estimate-based',
+  }
+}
+
+export function computeCost(usage: TokenUsage, price?: ModelPrice) {
+  if (!price)
+    return undefined
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+}
+
+export function createUsageTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, messages: 0, estimatedMessages: 0 }
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage, cost?: number) {
+  totals.promptTokens += usage.promptTokens
+  totals.completionTokens += usage.completionTokens
+  totals.totalTokens += usage.totalTokens
+  totals.messages++
+  if (usage.source === 'estimate-based')
+    totals.estimatedMessages++
+  if (cost !== undefined)
+    totals.cost = (totals.cost ?? 0) + cost
+}
+
+/**
+ * Totals the usage recorded on assistant entries, overall, per provider and per model.
+ * `prices` is keyed by model id and applied to the replies of that model.
+ */
+export function summarizeUsage(entries: Iterable<ChatEntry>, prices: Record<string, ModelPrice> = {}): UsageSummary {
+  const summary: UsageSummary = { total: createUsageTotals(), byProvider: {}, byModel: {} }
+
+  for (const entry of entries) {
+    if (entry.role !== 'assistant' || !entry.usage)
+      continue
+
+    const provider = typeof entry.context?.meta?.provider === 'string' ? entry.context.meta.provider : 'unknown'
+    const model = typeof entry.context?.meta?.model === 'string' ? entry.context.meta.model : 'unknown'
+    const cost = computeCost(entry.usage, prices[model])
+
+    addToTotals(summary.total, entry.usage, cost)
+    addToTotals(summary.byProvider[provider] ??= createUsageTotals(), entry.usage, cost)
+    addToTotals(summary.byModel[`${provider}/${model}`] ??= createUsageTotals(), entry.usage, cost)
+  }
+
+  return summary
+}
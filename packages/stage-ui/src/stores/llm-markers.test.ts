@@ -0,0 +1,56 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+
+import { createPauseMarker, defineMarker } from '../markers'
+import { useLlmMarkersStore } from './llm-markers'
+
+describe('llm markers store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('runs the handler of registered markers until they are unregistered', async () => {
+    const store = useLlmMarkersStore()
+    const handle = vi.fn()
+    const unregister = store.registerMarker(createPauseMarker(handle))
+
+    expect(await store.handleMarker('<|PAUSE:250ms|>')).toBe(true)
+    expect(handle).toHaveBeenCalledWith(250)
+    expect(store.describe()).toContain('- <|PAUSE:duration|>')
+
+    unregister()
+    expect(await store.handleMarker('<|PAUSE:250ms|>')).toBe(false)
+    expect(handle).toHaveBeenCalledTimes(1)
+    expect(store.describe()).toBe('')
+  })
+
+  it('reports the markers it could not act out, newest first', async () => {
+    const store = useLlmMarkersStore()
+    store.registerMarker(createPauseMarker(() => {}))
+    store.registerMarker(defineMarker({
+      name: 'FAIL',
+      usage: '<|FAIL|>',
+      description: 'Always fails.',
+      arguments: z.tuple([]),
+      handle: () => {
+        throw new Error('no stage')
+      },
+    }))
+
+    await store.handleMarker('<|WINK|>')
+    await store.handleMarker('<|PAUSE:later|>')
+    await store.handleMarker('<|FAIL|>')
+
+    expect(store.reports.map(({ marker, reason }) => ({ marker, reason }))).toEqual([
+      { marker: '<|FAIL|>', reason: 'failed' },
+      { marker: '<|PAUSE:later|>', reason: 'invalid' },
+      { marker: '<|WINK|>', reason: 'unknown' },
+    ])
+    expect(store.reports[0].error).toBe('no stage')
+
+    store.clearReports()
+    expect(store.reports).toEqual([])
+  })
+})
@@ -0,0 +1,106 @@
+import type { MarkerDefinition } from '../markers'
+
+import { defineStore } from 'pinia'
+import { computed, ref, shallowRef } from 'vue'
+
+import { describeMarkers, resolveMarker } from '../markers'
+
+const MAX_REPORTS = 50
+
+/**
+ * A marker the model wrote that could not be acted out.
+ */
+export interface MarkerReport {
+  /** The special token as written by the model */
+  marker: string
+  reason: 'unknown' | 'invalid' | 'failed'
+  error?: string
+  ts: number
+}
+
+export const useLlmMarkersStore = defineStore('llm-markers', () => {
+  // NOTICE: a shallow ref, the zod schemas and handlers must not be made reactive
+  const registry = shallowRef(new Map<string, MarkerDefinition>())
+  // Kept in the store state so the markers the model got wrong can be inspected from devtools, newest first
+  const reports = ref<MarkerReport[]>([])
+
+  /**
+   * Adds a marker to the registry, replacing any marker of the same name.
+   *
+   * @returns a function removing the marker again.
+   */
+  function registerMarker(definition: MarkerDefinition) {
+    const key = definition.name.toUpperCase()
+    if (registry.value.has(key))
+      console.warn(`Marker "${definition.name}" is already registered, replacing it`)
+
+    registry.value = new Map(registry.value).set(key, definition)
+
+    return () => {
+      if (registry.value.get(key) !== definition)
+        return
+
+      const next = new Map(registry.value)
+      next.delete(key)
+      registry.value = next
+    }
+  }
+
+  function report(marker: string, reason: MarkerReport['reason'], error?: string) {
+    console.warn(`Marker ${marker} was not acted out (${reason})`, error ?? '')
+    reports.value = [{ marker, reason, error, ts: Date.now() }, ...reports.value].slice(0, MAX_REPORTS)
+  }
+
+  /**
+   * Runs the handler of the marker written in `special`.
+   *
+   * @returns whether the marker was acted out. Unknown markers, invalid arguments and failing handlers are reported.
+   */
+  async function handleMarker(special: string) {
+    const resolved = resolveMarker(special, registry.value.values())
+    if (!resolved) {
+      report(special, 'unknown', 'Not written as <|NAME|> or <|NAME:arguments|>')
+      return false
+    }
+    if (resolved.type === 'unknown') {
+      report(special, 'unknown')
+      return false
+    }
+    if (resolved.type === 'invalid') {
+      report(special, 'invalid', resolved.error)
+      return false
+    }
+
+    try {
+      await resolved.definition.handle(resolved.args)
+      return true
+    }
+    catch (error) {
+      report(special, 'failed', (error as Error).message)
+      return false
+    }
+  }
+
+  const markers = computed(() => [...registry.value.values()])
+
+  /**
+   * Section of the system prompt describing the registered markers, empty when there are none.
+   */
+  function describe() {
+    return describeMarkers(registry.value.values())
+  }
+
+  function clearReports() {
+    reports.value = []
+  }
+
+  return {
+    markers,
+    reports,
+
+    registerMarker,
+    handleMarker,
+    describe,
+    clearReports,
+  }
+})
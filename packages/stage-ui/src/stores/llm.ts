@@ -1,16 +1,19 @@
 import type { ChatProvider } from '@xsai-ext/shared-providers'
 import type { CommonContentPart, CompletionToolCall, Message, Tool } from '@xsai/shared-chat'
 
+import type { ModelCapability } from './model-capabilities'
+
 import { listModels } from '@xsai/model'
 import { XSAIError } from '@xsai/shared'
 import { streamText } from '@xsai/stream-text'
+import { tool } from '@xsai/tool'
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
 
-import { debug, mcp } from '../tools'
+import { debugTools } from '../tools'
 
 export type StreamEvent
   = | { type: 'text-delta', text: string }
+    | { type: 'reasoning-delta', text: string }
     | ({ type: 'finish' } & any)
     | ({ type: 'tool-call' } & CompletionToolCall)
     | { type: 'tool-result', toolCallId: string, result?: string | CommonContentPart[] }
@@ -19,26 +22,28 @@ export type StreamEvent
 export interface StreamOptions {
   headers?: Record<string, string>
   onStreamEvent?: (event: StreamEvent) => void | Promise<void>
-  toolsCompatibility?: Map<string, boolean>
+  /** Whether the model accepts tools, see the model capabilities store */
   supportsTools?: boolean
+  /**
+   * Tools offered to the model, usually resolved from the tool registry.
+   * Only sent when the model is known to support tools.
+   */
   tools?: Tool[] | (() => Promise<Tool[] | undefined>)
+  /**
+   * Aborts the underlying HTTP stream (and any pending tool execution) once signaled.
+   * The returned promise rejects with `abortSignal.reason`.
+   */
+  abortSignal?: AbortSignal
+  /**
+   * Asks the provider to report token usage, delivered on the `finish` events.
+   */
+  includeUsage?: boolean
+  responseFormat?: { type: 'json_object' | 'text' }
 }
 
-// TODO: proper format for other error messages.
+// Error entries describe failed requests to the user, callers wanting them in the prompt convert them first
 function sanitizeMessages(messages: unknown[]): Message[] {
-  return messages.map((m: any) => {
-    if (m && m.role === 'error') {
-      return {
-        role: 'user',
-        content: `User encountered error: ${String(m.content ?? '')}`,
-      } as Message
-    }
-    return m as Message
-  })
-}
-
-function streamOptionsToolsCompatibilityOk(model: string, chatProvider: ChatProvider, _: Message[], options?: StreamOptions): boolean {
-  return !!(options?.supportsTools || options?.toolsCompatibility?.get(`${chatProvider.chat(model).baseURL}-${model}`))
+  return messages.filter((m: any) => !m || m.role !== 'error') as Message[]
 }
 
 async function streamFrom(model: string, chatProvider: ChatProvider, messages: Message[], options?: StreamOptions) {
@@ -53,35 +58,50 @@ async function streamFrom(model: string, chatProvider: ChatProvider, messages: M
   }
 
   return new Promise<void>(async (resolve, reject) => {
+    const abortSignal = options?.abortSignal
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason)
+      return
+    }
+
+    // NOTICE: streamText does not surface fetch aborts through onEvent, so we have to settle
+    // the promise ourselves, otherwise callers would wait forever on a cancelled request.
+    abortSignal?.addEventListener('abort', () => reject(abortSignal.reason), { once: true })
+
     try {
-      const supportedTools = streamOptionsToolsCompatibilityOk(model, chatProvider, messages, options)
+      const supportedTools = !!options?.supportsTools
+      // streamText does not await onEvent, handlers still running must finish before we settle
+      const handling: Promise<void>[] = []
 
-      await streamText({
+      const { steps } = streamText({
         ...chatProvider.chat(model),
         maxSteps: 10,
         messages: sanitized,
         headers,
+        abortSignal,
+        streamOptions: options?.includeUsage ? { includeUsage: true } : undefined,
+        responseFormat: options?.responseFormat,
         // TODO: we need Automatic tools discovery
-        tools: supportedTools
-          ? [
-              ...await mcp(),
-              ...await debug(),
-              ...await resolveTools(),
-            ]
-          : undefined,
-        async onEvent(event) {
-          try {
-            await options?.onStreamEvent?.(event as StreamEvent)
-            if (event.type === 'finish')
-              resolve()
-            else if (event.type === 'error')
-              reject(event.error ?? new Error('Stream error'))
-          }
-          catch (err) {
-            reject(err)
-          }
+        tools: supportedTools ? await resolveTools() : undefined,
+        onEvent(event) {
+          const handled = (async () => {
+            try {
+              await options?.onStreamEvent?.(event as StreamEvent)
+              if (event.type === 'error')
+                reject(event.error ?? new Error('Stream error'))
+            }
+            catch (err) {
+              reject(err)
+            }
+          })()
+          handling.push(handled)
+          return handled
         },
       })
+
+      // NOTICE: a step can emit `finish` twice, and the usage only arrives with the last chunk after the
+      // finish reason, so we settle once every step is done. Request failures are only surfaced here too.
+      steps.then(() => Promise.all(handling)).then(() => resolve(), reject)
     }
     catch (err) {
       reject(err)
@@ -92,7 +112,12 @@ async function streamFrom(model: string, chatProvider: ChatProvider, messages: M
 export async function attemptForToolsCompatibilityDiscovery(model: string, chatProvider: ChatProvider, _: Message[], options?: Omit<StreamOptions, 'supportsTools'>): Promise<boolean> {
   async function attempt(enable: boolean) {
     try {
-      await streamFrom(model, chatProvider, [{ role: 'user', content: 'Hello, world!' }], { ...options, supportsTools: enable })
+      await streamFrom(model, chatProvider, [{ role: 'user', content: 'Hello, world!' }], {
+        ...options,
+        supportsTools: enable,
+        // Any harmless tool works as a probe
+        tools: options?.tools ?? (() => Promise.all(debugTools.map(({ category: _category, approval: _approval, ...definition }) => tool(definition)))),
+      })
       return true
     }
     catch (err) {
@@ -159,21 +184,78 @@ export async function attemptForToolsCompatibilityDiscovery(model: string, chatP
   return attemptsResults[0].result === true && attemptsResults[1].result === true
 }
 
-export const useLLM = defineStore('llm', () => {
-  const toolsCompatibility = ref<Map<string, boolean>>(new Map())
+// 1x1 transparent PNG
+const PROBE_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
 
-  async function discoverToolsCompatibility(model: string, chatProvider: ChatProvider, _: Message[], options?: Omit<StreamOptions, 'supportsTools'>) {
-    // Cached, no need to discover again
-    if (toolsCompatibility.value.has(`${chatProvider.chat(model).baseURL}-${model}`)) {
-      return
+/**
+ * Whether the provider turned the request down, as opposed to failing to answer it.
+ */
+function isRejectedRequest(err: unknown) {
+  if (!(err instanceof XSAIError) || !err.response)
+    return false
+
+  return [400, 404, 415, 422].includes(err.response.status)
+}
+
+/**
+ * Sends small requests to find out what a model supports. Token usage and reasoning are observed
+ * on the replies of the other probes, so they come for free with any of them.
+ */
+export async function probeModelCapabilities(model: string, chatProvider: ChatProvider, capabilities: ModelCapability[], options?: Pick<StreamOptions, 'headers' | 'abortSignal'>) {
+  const results: Partial<Record<ModelCapability, boolean>> = {}
+  // Set once a probe got a reply, before that nothing can be told from missing usage or reasoning
+  let answered = false
+  const observe = (event: StreamEvent) => {
+    if (event.type === 'finish' && event.usage)
+      results.usage = true
+    if (event.type === 'reasoning-delta')
+      results.reasoning = true
+  }
+
+  async function attempt(messages: Message[], streamOptions?: StreamOptions) {
+    try {
+      await streamFrom(model, chatProvider, messages, { ...options, ...streamOptions, includeUsage: true, onStreamEvent: observe })
+      answered = true
+      return true
     }
+    catch (err) {
+      if (isRejectedRequest(err))
+        return false
 
-    const res = await attemptForToolsCompatibilityDiscovery(model, chatProvider, _, { ...options, toolsCompatibility: toolsCompatibility.value })
-    toolsCompatibility.value.set(`${chatProvider.chat(model).baseURL}-${model}`, res)
+      throw err
+    }
   }
 
+  if (capabilities.includes('tools')) {
+    results.tools = await attemptForToolsCompatibilityDiscovery(model, chatProvider, [], { ...options, includeUsage: true, onStreamEvent: observe })
+    answered = true
+  }
+  if (capabilities.includes('vision')) {
+    results.vision = await attempt([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What color is this image?' },
+        { type: 'image_url', image_url: { url: PROBE_IMAGE } },
+      ],
+    }])
+  }
+  if (capabilities.includes('json'))
+    results.json = await attempt([{ role: 'user', content: 'Reply with an empty JSON object.' }], { responseFormat: { type: 'json_object' } })
+  if ((capabilities.includes('usage') || capabilities.includes('reasoning')) && !answered)
+    await attempt([{ role: 'user', content: 'Hello, world!' }])
+
+  // Nothing seen on a reply means the model doesn't do it
+  if (answered && capabilities.includes('usage'))
+    results.usage ??= false
+  if (answered && capabilities.includes('reasoning'))
+    results.reasoning ??= false
+
+  return results
+}
+
+export const useLLM = defineStore('llm', () => {
   function stream(model: string, chatProvider: ChatProvider, messages: Message[], options?: StreamOptions) {
-    return streamFrom(model, chatProvider, messages, { ...options, toolsCompatibility: toolsCompatibility.value })
+    return streamFrom(model, chatProvider, messages, options)
   }
 
   async function models(apiUrl: string, apiKey: string) {
@@ -199,6 +281,5 @@ export const useLLM = defineStore('llm', () => {
   return {
     models,
     stream,
-    discoverToolsCompatibility,
   }
 })
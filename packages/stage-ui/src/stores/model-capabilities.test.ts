@@ -0,0 +1,104 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { capabilitiesFromListing, mergeCapabilities, useModelCapabilitiesStore } from './model-capabilities'
+
+const { indexedDBMap, mockProbe, mockSetItem } = vi.hoisted(() => ({
+  indexedDBMap: new Map<string, unknown>(),
+  mockProbe: vi.fn(),
+  mockSetItem: vi.fn(),
+}))
+
+vi.mock('localforage', () => ({
+  default: {
+    INDEXEDDB: 'asyncStorage',
+    createInstance: () => ({
+      iterate: async (iterator: (value: unknown, key: string) => void) => {
+        for (const [key, value] of indexedDBMap)
+          iterator(value, key)
+      },
+      setItem: async (key: string, value: unknown) => {
+        mockSetItem(key, value)
+        return indexedDBMap.set(key, value).get(key)
+      },
+      clear: async () => indexedDBMap.clear(),
+    }),
+  },
+}))
+
+vi.mock('./llm', () => ({
+  probeModelCapabilities: mockProbe,
+}))
+
+vi.mock('./providers', () => ({
+  useProvidersStore: () => ({
+    getModelsForProvider: () => [{ id: 'vision-model', capabilities: ['vision'] }],
+  }),
+}))
+
+const chatProvider = { chat: (model: string) => ({ baseURL: 'https://example.com/v1/', model }) } as never
+
+describe('model capabilities', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    indexedDBMap.clear()
+    mockProbe.mockReset()
+    mockSetItem.mockReset()
+  })
+
+  it('reads capabilities from OpenRouter style listings', () => {
+    expect(capabilitiesFromListing({
+      supported_parameters: ['tools', 'response_format', 'include_reasoning'],
+      architecture: { input_modalities: ['text', 'image'] },
+    })).toEqual(['tools', 'json', 'reasoning', 'vision'])
+    expect(capabilitiesFromListing({})).toBeUndefined()
+  })
+
+  it('lets probe results win over listings', () => {
+    const record = { baseURL: 'https://example.com/v1/', model: 'm', capabilities: {} }
+    const probed = mergeCapabilities(record, { tools: false }, 'probe', 1)
+
+    expect(mergeCapabilities(probed, { tools: true, vision: true }, 'listing', 2).capabilities).toEqual({
+      tools: { supported: false, source: 'probe', checkedAt: 1 },
+      vision: { supported: true, source: 'listing', checkedAt: 2 },
+    })
+  })
+
+  it('probes tools once, persists the result and re-probes everything on demand', async () => {
+    mockProbe.mockResolvedValue({ tools: true, usage: true })
+    const store = useModelCapabilitiesStore()
+
+    await store.discover('vision-model', chatProvider, { providerId: 'openrouter' })
+    await store.discover('vision-model', chatProvider, { providerId: 'openrouter' })
+
+    expect(mockProbe).toHaveBeenCalledTimes(1)
+    expect(mockProbe).toHaveBeenCalledWith('vision-model', chatProvider, ['tools'])
+    expect(store.supports('vision-model', chatProvider, 'tools')).toBe(true)
+    expect(store.supports('vision-model', chatProvider, 'vision')).toBe(true)
+    expect(store.supports('vision-model', chatProvider, 'json')).toBeUndefined()
+
+    // A fresh store loads what was persisted instead of probing again
+    setActivePinia(createPinia())
+    const reloaded = useModelCapabilitiesStore()
+    await reloaded.discover('vision-model', chatProvider)
+    expect(mockProbe).toHaveBeenCalledTimes(1)
+    expect(reloaded.supports('vision-model', chatProvider, 'usage')).toBe(true)
+
+    mockProbe.mockResolvedValue({ tools: true, vision: false, json: true, reasoning: false, usage: true })
+    await reloaded.discover('vision-model', chatProvider, { force: true })
+    expect(mockProbe).toHaveBeenLastCalledWith('vision-model', chatProvider, ['tools', 'vision', 'json', 'reasoning', 'usage'])
+    expect(reloaded.supports('vision-model', chatProvider, 'vision')).toBe(false)
+  })
+
+  it('only writes a record back when discovering changed it', async () => {
+    mockProbe.mockResolvedValue({ tools: true })
+    const store = useModelCapabilitiesStore()
+
+    const probed = await store.discover('vision-model', chatProvider, { providerId: 'openrouter' })
+    expect(mockSetItem).toHaveBeenCalledTimes(1)
+
+    // The listing says the same again, nothing to write
+    expect(await store.discover('vision-model', chatProvider, { providerId: 'openrouter' })).toEqual(probed)
+    expect(mockSetItem).toHaveBeenCalledTimes(1)
+  })
+})
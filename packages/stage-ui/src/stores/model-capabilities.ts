@@ -0,0 +1,232 @@
+import type { ChatProvider } from '@xsai-ext/shared-providers'
+
+import localforage from 'localforage'
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+import { probeModelCapabilities } from './llm'
+import { useProvidersStore } from './providers'
+
+export const MODEL_CAPABILITIES = ['tools', 'vision', 'json', 'reasoning', 'usage'] as const
+
+/**
+ * What a model can do: call tools, read images, answer in JSON mode,
+ * stream its reasoning, and report token usage while streaming.
+ */
+export type ModelCapability = typeof MODEL_CAPABILITIES[number]
+
+export interface ModelCapabilityValue {
+  supported: boolean
+  /** `listing` comes from the provider's model list, `probe` from a request sent to the model */
+  source: 'listing' | 'probe'
+  checkedAt: number
+}
+
+export interface ModelCapabilityRecord {
+  baseURL: string
+  model: string
+  capabilities: Partial<Record<ModelCapability, ModelCapabilityValue>>
+}
+
+/**
+ * Same key as the former in-memory tools compatibility map, so a model behind two providers is probed twice.
+ */
+export function capabilityKey(baseURL: string, model: string) {
+  return `${baseURL}-${model}`
+}
+
+/**
+ * Capabilities a provider's model listing advertises, in the shape of `ModelInfo.capabilities`.
+ * Understands the OpenRouter style `supported_parameters` and `architecture.input_modalities` fields.
+ */
+export function capabilitiesFromListing(model: { supported_parameters?: unknown, architecture?: { input_modalities?: unknown } }): ModelCapability[] | undefined {
+  const parameters = Array.isArray(model.supported_parameters) ? model.supported_parameters : []
+  const modalities = Array.isArray(model.architecture?.input_modalities) ? model.architecture.input_modalities : []
+  if (parameters.length === 0 && modalities.length === 0)
+    return undefined
+
+  const capabilities = new Set<ModelCapability>()
+  if (parameters.includes('tools'))
+    capabilities.add('tools')
+  if (parameters.includes('response_format') || parameters.includes('structured_outputs'))
+    capabilities.add('json')
+  if (parameters.includes('reasoning') || parameters.includes('include_reasoning'))
+    capabilities.add('reasoning')
+  if (modalities.includes('image'))
+    capabilities.add('vision')
+
+  return [...capabilities]
+}
+
+/**
+ * Merges what is known about a model. Probe results override listings, since they were observed
+ * against the actual endpoint, and newer values of the same source replace older ones.
+ */
+export function mergeCapabilities(
+  record: ModelCapabilityRecord,
+  updates: Partial<Record<ModelCapability, boolean>>,
+  source: ModelCapabilityValue['source'],
+  checkedAt = Date.now(),
+): ModelCapabilityRecord {
+  const capabilities = { ...record.capabilities }
+  for (const [capability, supported] of Object.entries(updates) as [ModelCapability, boolean | undefined][]) {
+    if (supported === undefined)
+      continue
+    if (source === 'listing' && capabilities[capability]?.source === 'probe')
+      continue
+
+    capabilities[capability] = { supported, source, checkedAt }
+  }
+
+  return { ...record, capabilities }
+}
+
+/**
+ * Listed capabilities only say what a model supports, anything missing from the list is left unknown.
+ */
+function listedCapabilities(listed?: string[]) {
+  return Object.fromEntries(
+    MODEL_CAPABILITIES.filter(capability => listed?.includes(capability)).map(capability => [capability, true]),
+  ) as Partial<Record<ModelCapability, boolean>>
+}
+
+// Whether a merge changed what is known, seeing the same listing again only refreshes `checkedAt`
+function hasChanged(before: ModelCapabilityRecord['capabilities'], after: ModelCapabilityRecord['capabilities']) {
+  return MODEL_CAPABILITIES.some(capability => before[capability]?.supported !== after[capability]?.supported
+    || before[capability]?.source !== after[capability]?.source)
+}
+
+export const useModelCapabilitiesStore = defineStore('model-capabilities', () => {
+  const providersStore = useProvidersStore()
+
+  const storage = localforage.createInstance({
+    name: 'airi',
+    storeName: 'model_capabilities',
+    driver: localforage.INDEXEDDB,
+  })
+
+  const records = ref<Record<string, ModelCapabilityRecord>>({})
+  const probing = ref<Record<string, boolean>>({})
+  // Probes still running, so switching back and forth between models doesn't send them twice
+  const pendingProbes = new Map<string, Promise<ModelCapabilityRecord>>()
+  let loaded: Promise<void> | undefined
+
+  function load() {
+    loaded ??= storage.iterate<ModelCapabilityRecord, void>((record, key) => {
+      records.value[key] ??= record
+    }).catch((error) => {
+      console.error('Failed to load model capabilities:', error)
+    })
+
+    return loaded
+  }
+
+  async function save(record: ModelCapabilityRecord) {
+    const key = capabilityKey(record.baseURL, record.model)
+    records.value[key] = record
+    try {
+      await storage.setItem(key, JSON.parse(JSON.stringify(record)))
+    }
+    catch (error) {
+      console.error('Failed to save model capabilities:', error)
+    }
+  }
+
+  function baseURLOf(model: string, chatProvider: ChatProvider) {
+    return String(chatProvider.chat(model).baseURL)
+  }
+
+  function getRecord(model: string, chatProvider: ChatProvider): ModelCapabilityRecord | undefined {
+    return records.value[capabilityKey(baseURLOf(model, chatProvider), model)]
+  }
+
+  /**
+   * @returns undefined while the capability is unknown, callers decide whether to assume it.
+   */
+  function supports(model: string, chatProvider: ChatProvider, capability: ModelCapability) {
+    return getRecord(model, chatProvider)?.capabilities[capability]?.supported
+  }
+
+  function isProbing(model: string, chatProvider: ChatProvider) {
+    return !!probing.value[capabilityKey(baseURLOf(model, chatProvider), model)]
+  }
+
+  /**
+   * Records a capability seen in regular use, e.g. a reply that came with token usage.
+   */
+  async function observe(model: string, chatProvider: ChatProvider, updates: Partial<Record<ModelCapability, boolean>>) {
+    await load()
+    const record = getRecord(model, chatProvider) ?? { baseURL: baseURLOf(model, chatProvider), model, capabilities: {} }
+    const changed = (Object.entries(updates) as [ModelCapability, boolean | undefined][])
+      .some(([capability, supported]) => supported !== undefined && record.capabilities[capability]?.supported !== supported)
+    if (changed)
+      await save(mergeCapabilities(record, updates, 'probe'))
+  }
+
+  /**
+   * Makes sure the capabilities needed to send a message are known. Only tools are probed unless
+   * `force` is set, which probes every capability again, e.g. after the provider upgraded the model.
+   */
+  async function discover(model: string, chatProvider: ChatProvider, options?: { providerId?: string, force?: boolean }) {
+    await load()
+
+    const baseURL = baseURLOf(model, chatProvider)
+    const key = capabilityKey(baseURL, model)
+    const pending = pendingProbes.get(key)
+    if (pending && !options?.force)
+      return pending
+
+    const listed = options?.providerId
+      ? providersStore.getModelsForProvider(options.providerId).find(info => info.id === model)?.capabilities
+      : undefined
+
+    const known = getRecord(model, chatProvider)
+    let record = mergeCapabilities(known ?? { baseURL, model, capabilities: {} }, listedCapabilities(listed), 'listing')
+    const wanted = options?.force
+      ? [...MODEL_CAPABILITIES]
+      : MODEL_CAPABILITIES.filter(capability => capability === 'tools' && record.capabilities.tools === undefined)
+
+    if (wanted.length === 0) {
+      if (known && !hasChanged(known.capabilities, record.capabilities))
+        return known
+
+      await save(record)
+      return record
+    }
+
+    const probe = (async () => {
+      probing.value[key] = true
+      try {
+        record = mergeCapabilities(record, await probeModelCapabilities(model, chatProvider, wanted), 'probe')
+        await save(record)
+        return record
+      }
+      finally {
+        probing.value[key] = false
+        pendingProbes.delete(key)
+      }
+    })()
+    pendingProbes.set(key, probe)
+
+    return probe
+  }
+
+  async function resetState() {
+    records.value = {}
+    await storage.clear()
+  }
+
+  return {
+    records,
+    probing,
+
+    load,
+    getRecord,
+    supports,
+    isProbing,
+    observe,
+    discover,
+    resetState,
+  }
+})
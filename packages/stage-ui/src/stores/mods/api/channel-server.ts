@@ -1,10 +1,15 @@
 import type { ContextMessage, WebSocketBaseEvent, WebSocketEvent, WebSocketEvents } from '@proj-airi/server-sdk'
 
 import { Client } from '@proj-airi/server-sdk'
+import { nanoid } from 'nanoid'
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
 
+const MODULE_NAME = 'proj-airi:ui:stage'
+
 export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:server', () => {
+  // Tells the events of this window apart from the ones of other windows of the same module
+  const instanceId = nanoid()
   const connected = ref(false)
   const client = ref<Client>()
   const initializing = ref<Promise<void> | null>(null)
@@ -25,7 +30,7 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
 
     initializing.value = new Promise<void>((resolve, reject) => {
       client.value = new Client({
-        name: 'proj-airi:ui:stage',
+        name: MODULE_NAME,
         url: import.meta.env.VITE_AIRI_WS_URL || 'ws://localhost:6121/ws',
         token: options?.token,
         possibleEvents,
@@ -97,10 +102,26 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
     }
   }
 
+  function eventMetadata() {
+    return {
+      source: { plugin: MODULE_NAME, instanceId },
+      event: { id: nanoid() },
+    }
+  }
+
   function sendContextUpdate(message: ContextMessage) {
     send({
       type: 'context:update',
       data: message,
+      metadata: eventMetadata(),
+    })
+  }
+
+  function sendChatComplete(data: WebSocketEvents['output:gen-ai:chat:complete']) {
+    send({
+      type: 'output:gen-ai:chat:complete',
+      data,
+      metadata: eventMetadata(),
     })
   }
 
@@ -119,6 +140,7 @@ export const useModsServerChannelStore = defineStore('mods:channels:proj-airi:se
     initialize,
     send,
     sendContextUpdate,
+    sendChatComplete,
     onContextUpdate,
     dispose,
   }
@@ -1,5 +1,11 @@
 import type { Card, ccv3 } from '@proj-airi/ccc'
 
+import type { ModelTarget } from '../chat/failover'
+import type { PromptSection, SystemPromptOptions } from '../chat/prompt-builder'
+import type { ToolOverrides } from '../tools'
+import type { IdleSettingsOverride } from './idle'
+
+import { macros } from '@proj-airi/ccc'
 import { nanoid } from 'nanoid'
 import { defineStore, storeToRefs } from 'pinia'
 import { computed, watch } from 'vue'
@@ -8,6 +14,7 @@ import { useI18n } from 'vue-i18n'
 import SystemPromptV2 from '../../constants/prompts/system-v2'
 
 import { createResettableLocalStorage } from '../../utils/resettable'
+import { buildSystemPrompt, DEFAULT_PROMPT_ORDER } from '../chat/prompt-builder'
 import { useConsciousnessStore } from './consciousness'
 import { useSpeechStore } from './speech'
 
@@ -15,6 +22,7 @@ export interface AiriExtension {
   modules: {
     consciousness: {
       model: string // Example: "gpt-4o"
+      fallbacks?: ModelTarget[] // Tried in order when the model fails, overrides the global chain
     }
 
     speech: {
@@ -45,6 +53,9 @@ export interface AiriExtension {
       prompt: string
     }
   }
+
+  tools?: ToolOverrides // Tools switched on or off for this character, by name
+  idle?: IdleSettingsOverride // When and how this character speaks up on its own
 }
 
 export interface AiriCard extends Card {
@@ -56,6 +67,12 @@ export interface AiriCard extends Card {
 export const useAiriCardStore = defineStore('airi-card', () => {
   const [cards, resetCards] = createResettableLocalStorage<Map<string, AiriCard>>('airi-cards', new Map())
   const [activeCardId, resetActiveCardId] = createResettableLocalStorage('airi-card-active-id', 'default')
+  // Name the user goes by in prompts, substituted for {{user}}
+  const [personaName, resetPersonaName] = createResettableLocalStorage('airi-card-persona-name', '')
+  // Which card sections make up the system prompt, and in which order
+  const [promptOrder, resetPromptOrder] = createResettableLocalStorage<PromptSection[]>('airi-card-prompt-order', [...DEFAULT_PROMPT_ORDER])
+
+  const { locale } = useI18n()
 
   const activeCard = computed(() => cards.value.get(activeCardId.value))
 
@@ -115,6 +132,7 @@ export const useAiriCardStore = defineStore('airi-card', () => {
       modules: {
         consciousness: {
           model: existingExtension.modules?.consciousness?.model ?? defaultModules.consciousness.model,
+          fallbacks: existingExtension.modules?.consciousness?.fallbacks,
         },
         speech: {
           model: existingExtension.modules?.speech?.model ?? defaultModules.speech.model,
@@ -128,6 +146,8 @@ export const useAiriCardStore = defineStore('airi-card', () => {
         live2d: existingExtension.modules?.live2d,
       },
       agents: existingExtension.agents ?? {},
+      tools: existingExtension.tools,
+      idle: existingExtension.idle,
     }
   }
 
@@ -162,6 +182,7 @@ export const useAiriCardStore = defineStore('airi-card', () => {
                   throw new Error(`Invalid message example format: ${line}`)
                 }))
           : [],
+        characterBook: ccv3Card.data.character_book,
         tags: ccv3Card.data.tags ?? [],
         extensions: {
           airi: resolveAiriExtension(ccv3Card),
@@ -227,18 +248,46 @@ export const useAiriCardStore = defineStore('airi-card', () => {
     activeSpeechVoiceId.value = extension?.modules?.speech?.voice_id
   })
 
+  /**
+   * Expands the prompt macros of `text` ({{char}}, {{user}}, {{time}}, ...) for `card`, the active card by default.
+   */
+  function renderTemplate(text: string, context: Omit<macros.MacroContext, 'char' | 'user' | 'locale'> = {}, card: AiriCard | undefined = activeCard.value) {
+    return macros.render(text, {
+      ...context,
+      char: card?.nickname || card?.name,
+      user: personaName.value.trim() || 'User',
+      locale: locale.value,
+    })
+  }
+
+  /**
+   * System prompt of `card`, the active card by default, with the triggered lorebook entries when given.
+   */
+  function composeSystemPrompt(lorebook?: SystemPromptOptions['lorebook'], card: AiriCard | undefined = activeCard.value) {
+    if (!card)
+      return ''
+
+    return buildSystemPrompt(card, { order: promptOrder.value, lorebook })
+  }
+
   function resetState() {
     resetActiveCardId()
     resetCards()
+    resetPersonaName()
+    resetPromptOrder()
   }
 
   return {
     cards,
     activeCard,
     activeCardId,
+    personaName,
+    promptOrder,
     addCard,
     removeCard,
     getCard,
+    renderTemplate,
+    composeSystemPrompt,
     resetState,
 
     currentModels: computed(() => {
@@ -253,18 +302,6 @@ export const useAiriCardStore = defineStore('airi-card', () => {
       } satisfies AiriExtension['modules']
     }),
 
-    systemPrompt: computed(() => {
-      const card = activeCard.value
-      if (!card)
-        return ''
-
-      const components = [
-        card.systemPrompt,
-        card.description,
-        card.personality,
-      ].filter(Boolean)
-
-      return components.join('\n')
-    }),
+    systemPrompt: computed(() => composeSystemPrompt()),
   }
 })
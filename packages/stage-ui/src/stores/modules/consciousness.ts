@@ -1,3 +1,8 @@
+import type { ChatProvider } from '@xsai-ext/shared-providers'
+
+import type { ModelTarget } from '../chat/failover'
+import type { ModelPrice } from '../chat/usage'
+
 import { defineStore } from 'pinia'
 import { computed } from 'vue'
 
@@ -11,6 +16,14 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
   const [activeProvider, resetActiveProvider] = createResettableLocalStorage('settings/consciousness/active-provider', '')
   const [activeModel, resetActiveModel] = createResettableLocalStorage('settings/consciousness/active-model', '')
   const [activeCustomModelName, resetActiveCustomModelName] = createResettableLocalStorage('settings/consciousness/active-custom-model', '')
+  // Context window sizes set by hand, keyed by model id, for providers that don't report them
+  const [contextLengthOverrides, resetContextLengthOverrides] = createResettableLocalStorage<Record<string, number>>('settings/consciousness/context-length-overrides', {})
+  // Tried in order when the active model fails, unless the active card brings its own chain
+  const [fallbackChain, resetFallbackChain] = createResettableLocalStorage<ModelTarget[]>('settings/consciousness/fallback-chain', [])
+  // Answer side by side with the active model when comparing models in the chat
+  const [compareTargets, resetCompareTargets] = createResettableLocalStorage<ModelTarget[]>('settings/consciousness/compare-targets', [])
+  // Optional prices keyed by model id, used to turn token usage into costs
+  const [modelPrices, resetModelPrices] = createResettableLocalStorage<Record<string, ModelPrice>>('settings/consciousness/model-prices', {})
   const [expandedDescriptions, resetExpandedDescriptions] = createResettableRef<Record<string, boolean>>({})
   const [modelSearchQuery, resetModelSearchQuery] = createResettableRef('')
 
@@ -44,6 +57,28 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     )
   })
 
+  /**
+   * Context window of a model in tokens, preferring the manual override over what the provider reports.
+   * Returns `undefined` when neither knows it.
+   */
+  function getContextLength(model = activeModel.value, provider = activeProvider.value) {
+    const override = contextLengthOverrides.value[model]
+    if (override && override > 0)
+      return override
+
+    return providersStore.getModelsForProvider(provider).find(info => info.id === model)?.contextLength || undefined
+  }
+
+  /**
+   * Provider instance and request headers of a fallback chain entry.
+   */
+  async function resolveModelTarget(target: ModelTarget) {
+    const chatProvider = await providersStore.getProviderInstance<ChatProvider>(target.provider)
+    const headers = (providersStore.getProviderConfig(target.provider)?.headers || {}) as Record<string, string>
+
+    return { ...target, chatProvider, headers }
+  }
+
   function resetModelSelection() {
     resetActiveModel()
     resetActiveCustomModelName()
@@ -72,6 +107,10 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
   function resetState() {
     resetActiveProvider()
     resetModelSelection()
+    resetContextLengthOverrides()
+    resetFallbackChain()
+    resetCompareTargets()
+    resetModelPrices()
   }
 
   return {
@@ -80,6 +119,10 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     activeProvider,
     activeModel,
     customModelName: activeCustomModelName,
+    contextLengthOverrides,
+    fallbackChain,
+    compareTargets,
+    modelPrices,
     expandedDescriptions,
     modelSearchQuery,
 
@@ -94,6 +137,8 @@ export const useConsciousnessStore = defineStore('consciousness', () => {
     resetModelSelection,
     loadModelsForProvider,
     getModelsForProvider,
+    getContextLength,
+    resolveModelTarget,
     resetState,
   }
 })
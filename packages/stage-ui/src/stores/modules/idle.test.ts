@@ -0,0 +1,85 @@
+import type { ChatEntry } from '../chat'
+import type { IdleSettings } from './idle'
+
+import { describe, expect, it } from 'vitest'
+
+import { DEFAULT_IDLE_INSTRUCTION, drawSilence, IDLE_CONTEXT_SOURCE, planNudge, quietHoursEnd, resolveIdleSettings, summarizeIdleHistory } from './idle'
+
+const MINUTE = 60_000
+
+const settings: IdleSettings = {
+  enabled: true,
+  silenceMinutes: 10,
+  randomness: 0.5,
+  timeOfDayFactors: { morning: 1, afternoon: 1, evening: 1, night: 3 },
+  quietHours: { enabled: true, start: 23, end: 8 },
+  maxPerHour: 2,
+  maxConsecutive: 2,
+  instruction: DEFAULT_IDLE_INSTRUCTION,
+}
+
+function at(hours: number, minutes = 0) {
+  return new Date(2026, 0, 5, hours, minutes).getTime()
+}
+
+function entry(role: 'user' | 'assistant', ts: number, source: string = role === 'user' ? 'text' : 'llm') {
+  return { role, content: '', context: { sessionId: 's', source, ts } } as unknown as ChatEntry
+}
+
+describe('idle engine', () => {
+  it('draws the silence around the setting, scaled by the time of day', () => {
+    expect(drawSilence(settings, new Date(at(10)), () => 0.5)).toBe(10 * MINUTE)
+    expect(drawSilence(settings, new Date(at(10)), () => 0)).toBe(5 * MINUTE)
+    expect(drawSilence(settings, new Date(at(10)), () => 1)).toBe(15 * MINUTE)
+    expect(drawSilence(settings, new Date(at(2)), () => 0.5)).toBe(30 * MINUTE)
+  })
+
+  it('finds the end of quiet hours spanning midnight', () => {
+    expect(quietHoursEnd(settings.quietHours, at(23, 30))).toBe(new Date(2026, 0, 6, 8).getTime())
+    expect(quietHoursEnd(settings.quietHours, at(3))).toBe(at(8))
+    expect(quietHoursEnd(settings.quietHours, at(8))).toBeUndefined()
+    expect(quietHoursEnd({ enabled: true, start: 13, end: 14 }, at(13, 20))).toBe(at(14))
+    expect(quietHoursEnd({ ...settings.quietHours, enabled: false }, at(3))).toBeUndefined()
+  })
+
+  it('plans the next message within the limits', () => {
+    const history = { lastMessageAt: at(10), nudgeTimes: [], consecutiveNudges: 0 }
+    expect(planNudge(settings, history, at(10), 10 * MINUTE)).toBe(at(10, 10))
+    expect(planNudge({ ...settings, enabled: false }, history, at(10), 10 * MINUTE)).toBeUndefined()
+
+    // Pushed back out of the quiet hours
+    expect(planNudge(settings, history, at(22, 55), 10 * MINUTE)).toBe(new Date(2026, 0, 6, 8).getTime())
+
+    // The hour is full until the older message is an hour old
+    const busy = { lastMessageAt: at(10, 30), nudgeTimes: [at(10, 0), at(10, 30)], consecutiveNudges: 1 }
+    expect(planNudge(settings, busy, at(10, 30), 10 * MINUTE)).toBe(at(11, 0))
+
+    // Waits for the user after too many messages in a row
+    expect(planNudge(settings, { ...busy, consecutiveNudges: 2 }, at(10, 30), 10 * MINUTE)).toBeUndefined()
+  })
+
+  it('summarizes the idle history of the conversation', () => {
+    const entries = [
+      { role: 'system', content: 'prompt' } as ChatEntry,
+      entry('assistant', at(9), IDLE_CONTEXT_SOURCE),
+      entry('user', at(9, 5)),
+      entry('assistant', at(9, 6)),
+      entry('assistant', at(9, 30), IDLE_CONTEXT_SOURCE),
+      entry('assistant', at(10), IDLE_CONTEXT_SOURCE),
+    ]
+
+    expect(summarizeIdleHistory(entries)).toEqual({
+      lastMessageAt: at(10),
+      nudgeTimes: [at(9), at(9, 30), at(10)],
+      consecutiveNudges: 2,
+    })
+  })
+
+  it('applies card overrides over the settings', () => {
+    const resolved = resolveIdleSettings(settings, { silenceMinutes: 5, timeOfDayFactors: { night: 1 }, quietHours: { end: 9 } })
+
+    expect(resolved.silenceMinutes).toBe(5)
+    expect(resolved.timeOfDayFactors).toEqual({ morning: 1, afternoon: 1, evening: 1, night: 1 })
+    expect(resolved.quietHours).toEqual({ enabled: true, start: 23, end: 9 })
+  })
+})
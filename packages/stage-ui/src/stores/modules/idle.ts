@@ -0,0 +1,206 @@
+import type { ChatEntry } from '../chat'
+
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+
+import { createResettableLocalStorage } from '../../utils/resettable'
+import { useAiriCardStore } from './airi-card'
+
+/**
+ * `context.source` of the messages the character sends on its own.
+ */
+export const IDLE_CONTEXT_SOURCE = 'idle-engine'
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night'
+
+export interface IdleQuietHours {
+  enabled: boolean
+  /** Hour the quiet hours start at, 0 to 23 */
+  start: number
+  /** Hour they end at, before `start` when they span midnight */
+  end: number
+}
+
+export interface IdleSettings {
+  enabled: boolean
+  /** Minutes of silence before the character speaks up */
+  silenceMinutes: number
+  /** How much the silence varies, 0.25 waits anywhere between 75% and 125% of it */
+  randomness: number
+  /** Silence is scaled by the factor of the current time of day, 2 waits twice as long */
+  timeOfDayFactors: Record<TimeOfDay, number>
+  quietHours: IdleQuietHours
+  /** Messages the character may send on its own in any hour */
+  maxPerHour: number
+  /** Messages in a row without an answer, then the character waits for the user */
+  maxConsecutive: number
+  /** Given to the model for the message only, card macros such as `{{idle_duration}}` are expanded */
+  instruction: string
+}
+
+/**
+ * Per card overrides of the idle settings, kept in the AIRI extension of the card.
+ */
+export type IdleSettingsOverride = Partial<Omit<IdleSettings, 'timeOfDayFactors' | 'quietHours'>> & {
+  timeOfDayFactors?: Partial<Record<TimeOfDay, number>>
+  quietHours?: Partial<IdleQuietHours>
+}
+
+/**
+ * What the idle engine needs to know about the conversation so far.
+ */
+export interface IdleHistory {
+  /** Time of the latest message, `0` when nobody said anything yet */
+  lastMessageAt: number
+  /** Times of the messages the character sent on its own */
+  nudgeTimes: number[]
+  /** Messages the character sent on its own since the user last spoke */
+  consecutiveNudges: number
+}
+
+export const DEFAULT_IDLE_INSTRUCTION = '[{{user}} has been quiet for {{idle_duration}}, it is {{time}} on {{weekday}}. Say something short to {{user}} on your own, in character, like a thought that just came to you. Do not mention this note.]'
+
+const HOUR = 3_600_000
+
+export function getTimeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours()
+  if (hour >= 6 && hour < 12)
+    return 'morning'
+  if (hour >= 12 && hour < 18)
+    return 'afternoon'
+  if (hour >= 18 && hour < 22)
+    return 'evening'
+
+  return 'night'
+}
+
+/**
+ * Silence to wait for after activity at `date`, scaled by the time of day and randomized.
+ */
+export function drawSilence(settings: IdleSettings, date: Date, random: () => number = Math.random) {
+  const silence = settings.silenceMinutes * 60_000 * (settings.timeOfDayFactors[getTimeOfDay(date)] ?? 1)
+  return Math.max(0, silence * (1 + settings.randomness * (random() * 2 - 1)))
+}
+
+/**
+ * End of the quiet hours `time` falls in, `undefined` outside of them.
+ */
+export function quietHoursEnd(quietHours: IdleQuietHours, time: number) {
+  const { enabled, start, end } = quietHours
+  if (!enabled || start === end)
+    return undefined
+
+  const date = new Date(time)
+  const hour = date.getHours()
+  const quiet = start < end ? hour >= start && hour < end : hour >= start || hour < end
+  if (!quiet)
+    return undefined
+
+  const endsAt = new Date(date)
+  endsAt.setHours(end, 0, 0, 0)
+  if (endsAt.getTime() <= time)
+    endsAt.setDate(endsAt.getDate() + 1)
+
+  return endsAt.getTime()
+}
+
+/**
+ * When the character should speak up next, `undefined` when it should wait for the user.
+ * The silence runs from `lastActivityAt`, then the hourly limit and the quiet hours can push it back.
+ */
+export function planNudge(settings: IdleSettings, history: IdleHistory, lastActivityAt: number, silence: number) {
+  if (!settings.enabled || settings.maxPerHour <= 0 || history.consecutiveNudges >= settings.maxConsecutive)
+    return undefined
+
+  let dueAt = lastActivityAt + silence
+  // When the hour is full, wait until enough of its messages are an hour old
+  const recent = history.nudgeTimes.filter(time => time > dueAt - HOUR).sort((a, b) => a - b)
+  if (recent.length >= settings.maxPerHour)
+    dueAt = recent[recent.length - settings.maxPerHour] + HOUR
+
+  return quietHoursEnd(settings.quietHours, dueAt) ?? dueAt
+}
+
+/**
+ * Reads the idle history from the active branch, so every window of the app agrees on it.
+ */
+export function summarizeIdleHistory(entries: ChatEntry[]): IdleHistory {
+  const history: IdleHistory = { lastMessageAt: 0, nudgeTimes: [], consecutiveNudges: 0 }
+  for (const entry of entries) {
+    if (entry.role === 'system' || !entry.context)
+      continue
+
+    history.lastMessageAt = Math.max(history.lastMessageAt, entry.context.ts)
+    if (entry.role === 'user')
+      history.consecutiveNudges = 0
+
+    if (entry.context.source === IDLE_CONTEXT_SOURCE) {
+      history.nudgeTimes.push(entry.context.ts)
+      history.consecutiveNudges++
+    }
+  }
+
+  return history
+}
+
+export function resolveIdleSettings(settings: IdleSettings, override?: IdleSettingsOverride): IdleSettings {
+  if (!override)
+    return settings
+
+  return {
+    ...settings,
+    ...override,
+    timeOfDayFactors: { ...settings.timeOfDayFactors, ...override.timeOfDayFactors },
+    quietHours: { ...settings.quietHours, ...override.quietHours },
+  }
+}
+
+export const useIdleStore = defineStore('idle-store', () => {
+  const airiCardStore = useAiriCardStore()
+
+  const [enabled, resetEnabled] = createResettableLocalStorage('settings/idle/enabled', false)
+  const [silenceMinutes, resetSilenceMinutes] = createResettableLocalStorage('settings/idle/silence-minutes', 15)
+  const [randomness, resetRandomness] = createResettableLocalStorage('settings/idle/randomness', 0.3)
+  const [timeOfDayFactors, resetTimeOfDayFactors] = createResettableLocalStorage<Record<TimeOfDay, number>>('settings/idle/time-of-day-factors', { morning: 1, afternoon: 1, evening: 1, night: 2 })
+  const [quietHours, resetQuietHours] = createResettableLocalStorage<IdleQuietHours>('settings/idle/quiet-hours', { enabled: true, start: 23, end: 8 })
+  const [maxPerHour, resetMaxPerHour] = createResettableLocalStorage('settings/idle/max-per-hour', 2)
+  const [maxConsecutive, resetMaxConsecutive] = createResettableLocalStorage('settings/idle/max-consecutive', 2)
+  const [instruction, resetInstruction] = createResettableLocalStorage('settings/idle/instruction', DEFAULT_IDLE_INSTRUCTION)
+
+  // Settings in effect, the active card can override any of them
+  const settings = computed(() => resolveIdleSettings({
+    enabled: enabled.value,
+    silenceMinutes: silenceMinutes.value,
+    randomness: randomness.value,
+    timeOfDayFactors: timeOfDayFactors.value,
+    quietHours: quietHours.value,
+    maxPerHour: maxPerHour.value,
+    maxConsecutive: maxConsecutive.value,
+    instruction: instruction.value || DEFAULT_IDLE_INSTRUCTION,
+  }, airiCardStore.activeCard?.extensions?.airi?.idle))
+
+  function resetState() {
+    resetEnabled()
+    resetSilenceMinutes()
+    resetRandomness()
+    resetTimeOfDayFactors()
+    resetQuietHours()
+    resetMaxPerHour()
+    resetMaxConsecutive()
+    resetInstruction()
+  }
+
+  return {
+    enabled,
+    silenceMinutes,
+    randomness,
+    timeOfDayFactors,
+    quietHours,
+    maxPerHour,
+    maxConsecutive,
+    instruction,
+    settings,
+    configured: computed(() => settings.value.enabled),
+    resetState,
+  }
+})
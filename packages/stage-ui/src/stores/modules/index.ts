@@ -4,6 +4,7 @@ export * from './discord'
 export * from './gaming-factorio'
 export * from './gaming-minecraft'
 export * from './hearing'
+export * from './idle'
 export * from './speech'
 export * from './twitter'
 export * from './vision'
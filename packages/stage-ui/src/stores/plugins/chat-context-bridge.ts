@@ -28,48 +28,15 @@ export function installChatContextBridge() {
 
   let isProcessingRemoteStream = false
 
-  const stopStreamBroadcastHooks = [
-    chatStore.onBeforeMessageComposed(async (message) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'before-compose', message, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onAfterMessageComposed(async (message) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'after-compose', message, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onBeforeSend(async (message) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'before-send', message, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onAfterSend(async (message) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'after-send', message, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onTokenLiteral(async (literal) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'token-literal', literal, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onTokenSpecial(async (special) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'token-special', special, sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onStreamEnd(async () => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'stream-end', sessionId: chatStore.activeSessionId })
-    }),
-    chatStore.onAssistantResponseEnd(async (message) => {
-      if (isProcessingRemoteStream)
-        return
-      broadcastStreamEvent({ type: 'assistant-end', message, sessionId: chatStore.activeSessionId })
-    }),
-  ]
+  // Stream events of this window are mirrored to the others, the ones replayed from another window are not sent back
+  const streamEventTypes: ChatStreamEvent['type'][] = ['before-compose', 'after-compose', 'before-send', 'after-send', 'token-literal', 'token-special', 'stream-end', 'stream-aborted', 'assistant-end']
+  const stopStreamBroadcast = new AbortController()
+  for (const type of streamEventTypes) {
+    chatStore.events.on(type, (event) => {
+      if (!isProcessingRemoteStream)
+        broadcastStreamEvent(event)
+    }, { signal: stopStreamBroadcast.signal })
+  }
 
   const stopIncomingWatch = watch(incomingContext, (event) => {
     if (event)
@@ -85,38 +52,23 @@ export function installChatContextBridge() {
       if (event.sessionId && chatStore.activeSessionId !== event.sessionId)
         chatStore.setActiveSession(event.sessionId)
 
-      switch (event.type) {
-        case 'before-compose':
-          await chatStore.emitBeforeMessageComposedHooks(event.message)
-          break
-        case 'after-compose':
-          await chatStore.emitAfterMessageComposedHooks(event.message)
-          break
-        case 'before-send':
-          await chatStore.emitBeforeSendHooks(event.message)
-          break
-        case 'after-send':
-          await chatStore.emitAfterSendHooks(event.message)
-          break
-        case 'token-literal':
-          await chatStore.emitTokenLiteralHooks(event.literal)
-          break
-        case 'token-special':
-          await chatStore.emitTokenSpecialHooks(event.special)
-          break
-        case 'stream-end':
-          await chatStore.emitStreamEndHooks()
-          break
-        case 'assistant-end':
-          await chatStore.emitAssistantResponseEndHooks(event.message)
-          break
-      }
+      await chatStore.events.emit(event)
     }
     finally {
       isProcessingRemoteStream = false
     }
   })
 
+  // Completed replies of this window are reported to the server with their token usage
+  const offChatComplete = chatStore.onChatComplete(async (message, usage) => {
+    const { slices: _slices, tool_results, ...assistantMessage } = message
+    modsChannelServer.sendChatComplete({
+      message: assistantMessage,
+      toolCalls: tool_results.map(result => ({ role: 'tool', tool_call_id: result.id, content: result.result ?? '' })),
+      usage,
+    })
+  })
+
   const offPublish = chatStore.onContextPublish((envelope, origin) => {
     if (origin !== 'broadcast')
       broadcastContext(envelope)
@@ -125,7 +77,7 @@ export function installChatContextBridge() {
       modsChannelServer.sendContextUpdate(envelope)
   })
 
-  modsChannelServer.initialize({ possibleEvents: ['context:update'] }).catch(error => console.error('Context bridge init error:', error))
+  modsChannelServer.initialize({ possibleEvents: ['context:update', 'output:gen-ai:chat:complete'] }).catch(error => console.error('Context bridge init error:', error))
   const offWs = modsChannelServer.onContextUpdate((event) => {
     const envelope = event.data as ContextMessage<ContextPayload, Record<string, unknown>>
     chatStore.ingestContextMessage(envelope)
@@ -139,8 +91,9 @@ export function installChatContextBridge() {
       stopIncomingWatch()
       stopIncomingStreamWatch()
       offPublish()
+      offChatComplete()
       offWs?.()
-      stopStreamBroadcastHooks.forEach(stop => stop())
+      stopStreamBroadcast.abort()
       installed = false
     },
   }
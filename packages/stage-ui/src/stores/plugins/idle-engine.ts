@@ -0,0 +1,102 @@
+import type { ChatProvider } from '@xsai-ext/shared-providers'
+
+import { useDocumentVisibility, useIdle } from '@vueuse/core'
+import { computed, effectScope, ref, watch } from 'vue'
+
+import { useChatStore } from '../chat'
+import { useConsciousnessStore } from '../modules/consciousness'
+import { drawSilence, planNudge, summarizeIdleHistory, useIdleStore } from '../modules/idle'
+import { useProvidersStore } from '../providers'
+import { useSettingsAudioDevice } from '../settings'
+
+let installed = false
+
+/**
+ * Lets the character speak up after a silence, through the same LLM and speech pipeline as a reply.
+ * The history it plans from is read from the active session, so windows that received a nudge from
+ * another one wait for a fresh silence instead of sending their own.
+ */
+export function installIdleEngine() {
+  if (installed) {
+    return {
+      dispose: () => {},
+    }
+  }
+
+  const chatStore = useChatStore()
+  const idleStore = useIdleStore()
+  const consciousnessStore = useConsciousnessStore()
+  const providersStore = useProvidersStore()
+  const audioDeviceStore = useSettingsAudioDevice()
+
+  const scope = effectScope()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  // Set when the engine starts, resumes from a pause, or tried to speak
+  const lastWakeAt = ref(Date.now())
+
+  async function speakUp() {
+    timer = undefined
+    // A failed nudge waits for a whole silence too, instead of retrying right away
+    lastWakeAt.value = Date.now()
+
+    const provider = consciousnessStore.activeProvider
+    const model = consciousnessStore.activeModel
+    if (!provider || !model)
+      return
+
+    try {
+      await chatStore.nudge(idleStore.settings.instruction, {
+        model,
+        chatProvider: await providersStore.getProviderInstance<ChatProvider>(provider),
+        providerConfig: providersStore.getProviderConfig(provider),
+      })
+    }
+    catch (error) {
+      console.warn('Idle message failed:', error)
+    }
+  }
+
+  scope.run(() => {
+    const visibility = useDocumentVisibility()
+    // Typing or clicking around counts as activity, a draft in progress is not a silence
+    const { lastActive } = useIdle(60_000, { events: ['keydown', 'pointerdown', 'wheel', 'touchstart'] })
+
+    const history = computed(() => summarizeIdleHistory(chatStore.messages))
+    const lastActivityAt = computed(() => Math.max(history.value.lastMessageAt, lastActive.value, lastWakeAt.value))
+    const paused = computed(() => visibility.value === 'hidden'
+      || (audioDeviceStore.enabled && !!audioDeviceStore.stream)
+      || chatStore.sending)
+
+    // Drawn once per silence, so the wait doesn't change whenever the plan is recomputed
+    const silence = ref(0)
+    watch([lastActivityAt, () => idleStore.settings], () => {
+      silence.value = drawSilence(idleStore.settings, new Date(lastActivityAt.value))
+    }, { immediate: true })
+
+    watch(paused, (isPaused, wasPaused) => {
+      if (wasPaused && !isPaused)
+        lastWakeAt.value = Date.now()
+    })
+
+    watch([paused, history, lastActivityAt, silence, () => idleStore.settings], () => {
+      clearTimeout(timer)
+      timer = undefined
+      if (paused.value)
+        return
+
+      const dueAt = planNudge(idleStore.settings, history.value, lastActivityAt.value, silence.value)
+      if (dueAt !== undefined)
+        timer = setTimeout(() => void speakUp(), Math.max(0, dueAt - Date.now()))
+    }, { immediate: true })
+  })
+
+  installed = true
+
+  return {
+    dispose: () => {
+      scope.stop()
+      clearTimeout(timer)
+      installed = false
+    },
+  }
+}
@@ -1971,6 +1971,7 @@ export const useProvidersStore = defineStore('providers', () => {
         description: model.description,
         contextLength: model.contextLength,
         deprecated: model.deprecated,
+        capabilities: model.capabilities,
         provider: providerId,
       }))
 
@@ -4,6 +4,8 @@ import { generateText } from '@xsai/generate-text'
 import { listModels } from '@xsai/model'
 import { message } from '@xsai/utils-chat'
 
+import { capabilitiesFromListing } from '../model-capabilities'
+
 type ProviderCreator = (apiKey: string, baseUrl: string) => any
 
 // Lightweight normalization utilities and conditional logging
@@ -103,6 +105,7 @@ export function buildOpenAICompatibleProvider(
           description: model.description || '',
           contextLength: model.context_length || 0,
           deprecated: false,
+          capabilities: capabilitiesFromListing(model),
         } satisfies ModelInfo
       })
     },
@@ -112,6 +112,9 @@ export const useSettings = defineStore('settings', () => {
 
   const [allowVisibleOnAllWorkspaces, resetAllowVisibleOnAllWorkspaces] = createResettableLocalStorage('settings/allow-visible-on-all-workspaces', true)
 
+  // Unlocks debugging aids, such as the debug tools offered to the LLM
+  const [developerMode, resetDeveloperMode] = createResettableLocalStorage('settings/system/developer', false)
+
   function getLanguage() {
     let language = localStorage.getItem('settings/language')
 
@@ -182,6 +185,7 @@ export const useSettings = defineStore('settings', () => {
     resetThemeColorsHueDynamic()
 
     resetAllowVisibleOnAllWorkspaces()
+    resetDeveloperMode()
 
     await updateStageModel()
   }
@@ -207,6 +211,7 @@ export const useSettings = defineStore('settings', () => {
     themeColorsHueDynamic,
 
     allowVisibleOnAllWorkspaces,
+    developerMode,
 
     setThemeColorsHue,
     applyPrimaryColorFrom,
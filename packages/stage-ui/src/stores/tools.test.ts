@@ -0,0 +1,122 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { reactive } from 'vue'
+import { z } from 'zod'
+
+import { defineTool } from '../tools'
+import { ToolExecutionError } from './chat/errors'
+import { createToolDenial, useToolsStore } from './tools'
+
+const mockSettings = reactive({ developerMode: false })
+
+vi.mock('./settings', () => ({
+  useSettings: () => mockSettings,
+}))
+
+vi.mock('@proj-airi/tauri-plugin-mcp', () => ({
+  callTool: vi.fn(),
+  connectServer: vi.fn(),
+  disconnectServer: vi.fn(),
+  listTools: vi.fn(),
+}))
+
+const echo = defineTool({
+  name: 'echo',
+  description: 'Repeat the text',
+  category: 'plugin',
+  execute: async ({ text }) => text,
+  parameters: z.object({ text: z.string() }),
+})
+
+describe('tools store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    mockSettings.developerMode = false
+  })
+
+  it('registers tools and resolves the enabled ones', async () => {
+    const store = useToolsStore()
+    const unregister = store.registerTool(echo)
+
+    expect(store.tools.find(entry => entry.name === 'echo')).toEqual({
+      name: 'echo',
+      description: 'Repeat the text',
+      category: 'plugin',
+      enabled: true,
+      unavailable: false,
+      approval: 'allow',
+    })
+    expect((await store.resolveTools()).map(tool => tool.function.name)).toContain('echo')
+
+    store.setToolEnabled('echo', false)
+    expect((await store.resolveTools()).map(tool => tool.function.name)).not.toContain('echo')
+
+    store.setToolEnabled('echo', true)
+    unregister()
+    expect(store.isToolEnabled('echo')).toBe(false)
+  })
+
+  it('applies the narrowest override last', () => {
+    const store = useToolsStore()
+    store.registerTool(echo)
+    store.setToolEnabled('echo', false)
+
+    expect(store.isToolEnabled('echo', [{ echo: true }])).toBe(true)
+    expect(store.isToolEnabled('echo', [{ echo: true }, { echo: false }])).toBe(false)
+    expect(store.isToolEnabled('echo', [{ echo: true }, {}])).toBe(true)
+  })
+
+  it('runs tool calls according to their approval policy', async () => {
+    const store = useToolsStore()
+    store.registerTool(echo)
+    const requestApproval = vi.fn(async () => false)
+    const call = async () => {
+      const [echoTool] = (await store.resolveTools([], requestApproval)).filter(tool => tool.function.name === 'echo')
+      return echoTool.execute({ text: 'hi' }, { toolCallId: 'call-1', messages: [] })
+    }
+
+    expect(store.getToolPolicy('echo')).toBe('allow')
+    expect(await call()).toBe('hi')
+    expect(requestApproval).not.toHaveBeenCalled()
+
+    store.setToolPolicy('echo', 'ask')
+    expect(await call()).toEqual(createToolDenial('ask'))
+    expect(requestApproval).toHaveBeenCalledWith(expect.objectContaining({ toolCallId: 'call-1', name: 'echo', args: { text: 'hi' }, policy: 'ask' }))
+
+    requestApproval.mockResolvedValue(true)
+    expect(await call()).toBe('hi')
+
+    store.setToolPolicy('echo', 'deny')
+    expect(await call()).toEqual(createToolDenial('deny'))
+    expect(store.getToolPolicy('mcp_connect_server')).toBe('ask')
+  })
+
+  it('reports failing tools by name', async () => {
+    const store = useToolsStore()
+    store.registerTool(defineTool({
+      name: 'broken',
+      description: 'Always fails',
+      category: 'plugin',
+      execute: async () => {
+        throw new Error('disk full')
+      },
+      parameters: z.object({}),
+    }))
+
+    const [broken] = (await store.resolveTools()).filter(tool => tool.function.name === 'broken')
+    const error = await Promise.resolve(broken.execute({}, { toolCallId: 'call-1', messages: [] })).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(ToolExecutionError)
+    expect(error).toMatchObject({ toolName: 'broken', message: 'Tool "broken" failed: disk full' })
+  })
+
+  it('only offers debug tools in developer mode', () => {
+    const store = useToolsStore()
+
+    expect(store.tools.find(entry => entry.name === 'debug_random_number')?.unavailable).toBe(true)
+    expect(store.isToolEnabled('debug_random_number', [{ debug_random_number: true }])).toBe(false)
+
+    mockSettings.developerMode = true
+    expect(store.isToolEnabled('debug_random_number')).toBe(true)
+  })
+})
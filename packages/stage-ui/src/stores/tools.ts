@@ -0,0 +1,185 @@
+import type { Tool } from '@xsai/shared-chat'
+
+import type { ToolApprovalPolicy, ToolCategory, ToolDefinition } from '../tools'
+
+import { tool } from '@xsai/tool'
+import { defineStore } from 'pinia'
+import { computed, shallowRef } from 'vue'
+
+import { debugTools, mcpTools } from '../tools'
+import { createResettableLocalStorage } from '../utils/resettable'
+import { ToolExecutionError } from './chat/errors'
+import { useSettings } from './settings'
+
+/**
+ * Tools switched on or off by name, on top of the global setting.
+ */
+export type ToolOverrides = Record<string, boolean>
+
+export interface ToolEntry {
+  name: string
+  description?: string
+  category: ToolCategory
+  /** Enabled in the global settings */
+  enabled: boolean
+  /** Left out because developer mode is off */
+  unavailable: boolean
+  approval: ToolApprovalPolicy
+}
+
+/**
+ * A call waiting on the approval policy, `args` are already validated against the tool schema.
+ */
+export interface ToolApprovalRequest {
+  toolCallId: string
+  name: string
+  args: unknown
+  policy: Exclude<ToolApprovalPolicy, 'allow'>
+  abortSignal?: AbortSignal
+}
+
+/**
+ * Resolves to whether the call may run. Also called for denied tools so the refusal can be recorded,
+ * their calls never run whatever it resolves to.
+ */
+export type ToolApprovalHandler = (request: ToolApprovalRequest) => Promise<boolean>
+
+/**
+ * Result handed back to the model instead of running the tool.
+ */
+export function createToolDenial(policy: ToolApprovalRequest['policy']) {
+  return {
+    status: 'denied',
+    reason: policy === 'deny'
+      ? 'The user does not allow this tool to be called.'
+      : 'The user declined this tool call.',
+  }
+}
+
+export const useToolsStore = defineStore('tools', () => {
+  const settings = useSettings()
+
+  // NOTICE: a shallow ref, the zod schemas and executors must not be made reactive
+  const registry = shallowRef(new Map<string, ToolDefinition>())
+  // Disabled rather than enabled names are stored, so newly registered tools start enabled
+  const [disabledTools, resetDisabledTools] = createResettableLocalStorage<string[]>('settings/tools/disabled', [])
+  // Only the policies the user picked, the others follow the tool definition
+  const [toolPolicies, resetToolPolicies] = createResettableLocalStorage<Record<string, ToolApprovalPolicy>>('settings/tools/policies', {})
+
+  /**
+   * Adds a tool to the registry, replacing any tool of the same name.
+   *
+   * @returns a function removing the tool again.
+   */
+  function registerTool(definition: ToolDefinition) {
+    if (registry.value.has(definition.name))
+      console.warn(`Tool "${definition.name}" is already registered, replacing it`)
+
+    registry.value = new Map(registry.value).set(definition.name, definition)
+
+    return () => {
+      if (registry.value.get(definition.name) !== definition)
+        return
+
+      const next = new Map(registry.value)
+      next.delete(definition.name)
+      registry.value = next
+    }
+  }
+
+  function setToolEnabled(name: string, enabled: boolean) {
+    const others = disabledTools.value.filter(disabled => disabled !== name)
+    disabledTools.value = enabled ? others : [...others, name]
+  }
+
+  function getToolPolicy(name: string): ToolApprovalPolicy {
+    return toolPolicies.value[name] ?? registry.value.get(name)?.approval ?? 'allow'
+  }
+
+  function setToolPolicy(name: string, policy: ToolApprovalPolicy) {
+    toolPolicies.value = { ...toolPolicies.value, [name]: policy }
+  }
+
+  function isAvailable(definition: ToolDefinition) {
+    return definition.category !== 'debug' || settings.developerMode
+  }
+
+  /**
+   * Whether a tool reaches the LLM. Later overrides win, so pass them from the widest
+   * scope to the narrowest, e.g. the card's first and the session's last.
+   */
+  function isToolEnabled(name: string, overrides: (ToolOverrides | undefined)[] = []) {
+    const definition = registry.value.get(name)
+    if (!definition || !isAvailable(definition))
+      return false
+
+    const override = overrides.findLast(scope => scope?.[name] !== undefined)?.[name]
+    return override ?? !disabledTools.value.includes(name)
+  }
+
+  const tools = computed<ToolEntry[]>(() => [...registry.value.values()].map(definition => ({
+    name: definition.name,
+    description: definition.description,
+    category: definition.category,
+    enabled: !disabledTools.value.includes(definition.name),
+    unavailable: !isAvailable(definition),
+    approval: getToolPolicy(definition.name),
+  })))
+
+  /**
+   * Builds the tools sent along with a request. Calls to tools that are not always allowed go through
+   * `requestApproval` first, without it they are denied.
+   */
+  async function resolveTools(overrides: (ToolOverrides | undefined)[] = [], requestApproval?: ToolApprovalHandler): Promise<Tool[]> {
+    const definitions = [...registry.value.values()].filter(definition => isToolEnabled(definition.name, overrides))
+    return Promise.all(definitions.map(({ category: _category, approval: _approval, execute, ...options }) => tool({
+      ...options,
+      execute: async (args, executeOptions) => {
+        const run = async () => {
+          try {
+            return await execute(args, executeOptions)
+          }
+          catch (error) {
+            if (executeOptions.abortSignal?.aborted)
+              throw error
+
+            throw new ToolExecutionError(options.name, error)
+          }
+        }
+
+        // Read on every call, so changing the policy applies to a reply already running
+        const policy = getToolPolicy(options.name)
+        if (policy === 'allow')
+          return run()
+
+        const approved = await requestApproval?.({ toolCallId: executeOptions.toolCallId, name: options.name, args, policy, abortSignal: executeOptions.abortSignal }) ?? false
+        if (policy === 'deny' || !approved)
+          return createToolDenial(policy)
+
+        return run()
+      },
+    })))
+  }
+
+  for (const definition of [...mcpTools, ...debugTools])
+    registerTool(definition)
+
+  function resetState() {
+    resetDisabledTools()
+    resetToolPolicies()
+  }
+
+  return {
+    tools,
+    disabledTools,
+    toolPolicies,
+
+    registerTool,
+    setToolEnabled,
+    isToolEnabled,
+    getToolPolicy,
+    setToolPolicy,
+    resolveTools,
+    resetState,
+  }
+})
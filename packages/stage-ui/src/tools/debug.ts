@@ -1,10 +1,12 @@
-import { tool } from '@xsai/tool'
 import { z } from 'zod'
 
-const tools = [
-  tool({
+import { defineTool } from './define'
+
+export const debugTools = [
+  defineTool({
     name: 'debug_random_number',
     description: 'Generate a random number between 0 and 1',
+    category: 'debug',
     execute: async () => {
       return new Promise((resolve) => {
         setTimeout(() => {
@@ -15,5 +17,3 @@ const tools = [
     parameters: z.object({}),
   }),
 ]
-
-export const debug = async () => Promise.all(tools)
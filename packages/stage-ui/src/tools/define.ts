@@ -0,0 +1,32 @@
+import type { ToolExecuteOptions, ToolExecuteResult } from '@xsai/shared-chat'
+import type { ToolOptions } from '@xsai/tool'
+import type { z } from 'zod'
+
+/**
+ * Where a tool comes from, debug tools are only offered in developer mode.
+ */
+export type ToolCategory = 'debug' | 'mcp' | 'module' | 'plugin'
+
+/**
+ * Whether a call runs right away, waits for the user to confirm it, or is refused.
+ */
+export type ToolApprovalPolicy = 'allow' | 'ask' | 'deny'
+
+/**
+ * A tool with its category and approval policy. Without a schema it takes any arguments, so the
+ * definitions of every tool can be kept together.
+ */
+export interface ToolDefinition<T extends z.ZodType = z.ZodType<any, any>> extends Omit<ToolOptions<T>, 'execute'> {
+  category: ToolCategory
+  /** Policy until the user picks one, defaults to `allow` */
+  approval?: ToolApprovalPolicy
+  /** Called with the arguments as the model wrote them, they are not validated against `parameters` */
+  execute: (input: z.input<T>, options: ToolExecuteOptions) => Promise<ToolExecuteResult> | ToolExecuteResult
+}
+
+/**
+ * Typed helper for tool definitions, the registry turns them into xsai tools when a request is sent.
+ */
+export function defineTool<T extends z.ZodType>(definition: ToolDefinition<T>): ToolDefinition {
+  return definition
+}
@@ -1,2 +1,3 @@
 export * from './debug'
+export * from './define'
 export * from './mcp'
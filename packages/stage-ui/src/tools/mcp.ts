@@ -1,19 +1,24 @@
 import { callTool, connectServer, disconnectServer, listTools } from '@proj-airi/tauri-plugin-mcp'
-import { tool } from '@xsai/tool'
 import { z } from 'zod'
 
-const tools = [
-  tool({
+import { defineTool } from './define'
+
+export const mcpTools = [
+  defineTool({
     name: 'mcp_list_tools',
     description: 'List all tools available on the MCP server',
+    category: 'mcp',
     execute: async (_, __) => {
       return await listTools()
     },
     parameters: z.object({}),
   }),
-  tool({
+  defineTool({
     name: 'mcp_connect_server',
+    // Launches an arbitrary command
+    approval: 'ask',
     description: 'Connect to the MCP server. If "success", the connection to the MCP server is successful. Otherwise, the connection fails.',
+    category: 'mcp',
     execute: async ({ command, args }) => {
       await connectServer(command, args)
       return 'success'
@@ -23,18 +28,20 @@ const tools = [
       args: z.array(z.string()).describe('The arguments to pass to the MCP server'),
     }),
   }),
-  tool({
+  defineTool({
     name: 'mcp_disconnect_server',
     description: 'Disconnect from the MCP server. If "success", the disconnection from the MCP server is successful. Otherwise, the disconnection fails.',
+    category: 'mcp',
     execute: async () => {
       await disconnectServer()
       return 'success'
     },
     parameters: z.object({}),
   }),
-  tool({
+  defineTool({
     name: 'mcp_call_tool',
     description: 'Call a tool on the MCP server. The result is a list of content and a boolean indicating whether the tool call is an error.',
+    category: 'mcp',
     execute: async ({ name, parameters }) => {
       const parametersObject = Object.fromEntries(parameters.map(({ name, value }) => [name, value]))
       const result = await callTool(name, parametersObject)
@@ -55,5 +62,3 @@ const tools = [
     }),
   }),
 ]
-
-export const mcp = async () => Promise.all(tools)
@@ -1,13 +1,33 @@
 import type { AssistantMessage, CommonContentPart, CompletionToolCall, SystemMessage, ToolMessage, UserMessage } from '@xsai/shared-chat'
 
+import type { ToolApprovalPolicy } from '../tools'
+
 export interface ChatSlicesText {
   type: 'text'
   text: string
 }
 
+/**
+ * What a reasoning model thought before answering. Shown with the message, never spoken.
+ */
+export interface ChatSlicesReasoning {
+  type: 'reasoning'
+  text: string
+}
+
+/**
+ * Decision on a call that was not always allowed, kept with the message.
+ */
+export interface ChatToolCallApproval {
+  policy: Exclude<ToolApprovalPolicy, 'allow'>
+  status: 'pending' | 'approved' | 'denied'
+  decidedAt?: number
+}
+
 export interface ChatSlicesToolCall {
   type: 'tool-call'
   toolCall: CompletionToolCall
+  approval?: ChatToolCallApproval
 }
 
 export interface ChatSlicesToolCallResult {
@@ -16,7 +36,7 @@ export interface ChatSlicesToolCallResult {
   result?: string | CommonContentPart[]
 }
 
-export type ChatSlices = ChatSlicesText | ChatSlicesToolCall | ChatSlicesToolCallResult
+export type ChatSlices = ChatSlicesText | ChatSlicesReasoning | ChatSlicesToolCall | ChatSlicesToolCallResult
 
 export interface ChatAssistantMessage extends AssistantMessage {
   slices: ChatSlices[]
@@ -27,3 +47,51 @@ export interface ChatAssistantMessage extends AssistantMessage {
 }
 
 export type ChatMessage = ChatAssistantMessage | SystemMessage | ToolMessage | UserMessage
+
+export type ChatErrorCategory
+  = | 'auth'
+    | 'rate-limit'
+    | 'context-length'
+    | 'model-not-found'
+    | 'network'
+    | 'content-filter'
+    | 'tool-failure'
+    | 'unknown'
+
+/**
+ * What the user can do about a failed request, offered next to the error.
+ */
+export type ChatErrorFix = 'open-provider-settings' | 'open-model-settings' | 'trim-context'
+
+/**
+ * Classified failure of a chat request, kept on the error entry.
+ */
+export interface ChatErrorInfo {
+  category: ChatErrorCategory
+  /** HTTP status of the failed response */
+  status?: number
+  /** How long the provider asked to wait before the next request */
+  retryAfterMs?: number
+  /** Provider and model the request failed on, the last one tried when falling back */
+  provider?: string
+  model?: string
+  /** Tool that threw, for `tool-failure` */
+  toolName?: string
+  fix?: ChatErrorFix
+}
+
+export type ChatAttachmentType = 'image' | 'audio' | 'text' | 'pdf'
+
+/**
+ * What was attached to a user message, kept with the message to show it as a chip.
+ * The content itself is in the message: images as image parts, the others as text parts.
+ */
+export interface ChatAttachmentMeta {
+  type: ChatAttachmentType
+  name: string
+  mimeType: string
+  /** In bytes */
+  size: number
+  /** Only the beginning of the text, transcript or document reached the model */
+  truncated?: boolean
+}
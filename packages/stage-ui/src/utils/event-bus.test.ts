@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createEventBus } from './event-bus'
+
+type TestEvent
+  = | { type: 'token', literal: string }
+    | { type: 'end' }
+
+describe('createEventBus', () => {
+  it('calls listeners of the emitted type by priority, then in the order they were added', async () => {
+    const bus = createEventBus<TestEvent>()
+    const calls: string[] = []
+
+    bus.on('token', event => void calls.push(`a:${event.literal}`))
+    bus.on('token', event => void calls.push(`b:${event.literal}`), { priority: 10 })
+    bus.on('token', event => void calls.push(`c:${event.literal}`))
+    bus.on('end', () => void calls.push('end'))
+
+    await bus.emit({ type: 'token', literal: 'hi' })
+
+    expect(calls).toEqual(['b:hi', 'a:hi', 'c:hi'])
+  })
+
+  it('keeps dispatching when a listener throws and reports the error', async () => {
+    const onError = vi.fn()
+    const bus = createEventBus<TestEvent>({ onError })
+    const calls: string[] = []
+
+    bus.on('end', () => {
+      throw new Error('broken')
+    })
+    bus.on('end', () => void calls.push('after'))
+
+    const errors = await bus.emit({ type: 'end' })
+
+    expect(calls).toEqual(['after'])
+    expect(errors).toEqual([new Error('broken')])
+    expect(onError).toHaveBeenCalledWith(new Error('broken'), { type: 'end' })
+  })
+
+  it('awaits listeners one by one unless dispatched in parallel', async () => {
+    const bus = createEventBus<TestEvent>()
+    const calls: string[] = []
+    let release!: () => void
+
+    bus.on('end', async () => {
+      calls.push('slow:start')
+      await new Promise<void>(resolve => release = resolve)
+      calls.push('slow:end')
+    })
+    bus.on('end', () => void calls.push('fast'))
+
+    const serial = bus.emit({ type: 'end' })
+    await Promise.resolve()
+    expect(calls).toEqual(['slow:start'])
+    release()
+    await serial
+    expect(calls).toEqual(['slow:start', 'slow:end', 'fast'])
+
+    calls.length = 0
+    const parallel = bus.emit({ type: 'end' }, { dispatch: 'parallel' })
+    expect(calls).toEqual(['slow:start', 'fast'])
+    release()
+    await parallel
+  })
+
+  it('removes one-shot and aborted listeners', async () => {
+    const bus = createEventBus<TestEvent>()
+    const controller = new AbortController()
+    const once = vi.fn()
+    const aborted = vi.fn()
+    const removed = vi.fn()
+
+    bus.once('end', once)
+    bus.on('end', aborted, { signal: controller.signal })
+    const off = bus.on('end', removed)
+
+    await bus.emit({ type: 'end' })
+    controller.abort()
+    off()
+    await bus.emit({ type: 'end' })
+
+    expect(once).toHaveBeenCalledTimes(1)
+    expect(aborted).toHaveBeenCalledTimes(1)
+    expect(removed).toHaveBeenCalledTimes(1)
+    expect(bus.listenerCount('end')).toBe(0)
+  })
+})
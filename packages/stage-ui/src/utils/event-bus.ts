@@ -0,0 +1,127 @@
+export type EventOf<TEvent extends { type: string }, K extends TEvent['type']> = Extract<TEvent, { type: K }>
+
+export type EventListener<TEvent> = (event: TEvent) => Promise<void> | void
+
+export interface EventListenerOptions {
+  /** Listeners with a higher priority run first, equal priorities run in the order they were added */
+  priority?: number
+  /** Removes the listener after its first call */
+  once?: boolean
+  /** Removes the listener once aborted */
+  signal?: AbortSignal
+}
+
+export interface EmitOptions {
+  /**
+   * `serial` awaits each listener before calling the next one, `parallel` calls them all at once.
+   * Defaults to the dispatch mode of the bus.
+   */
+  dispatch?: 'serial' | 'parallel'
+}
+
+export interface EventBusOptions<TEvent extends { type: string }> {
+  /** @default 'serial' */
+  dispatch?: EmitOptions['dispatch']
+  /** Called with every error thrown by a listener, they never reach the emitter */
+  onError?: (error: unknown, event: TEvent) => void
+}
+
+interface ListenerEntry<TEvent> {
+  listener: EventListener<TEvent>
+  priority: number
+  once: boolean
+  off: () => void
+}
+
+/**
+ * Typed event bus keyed by the `type` of a discriminated union. A throwing listener is reported
+ * and skipped, the listeners after it and the emitter carry on.
+ */
+export function createEventBus<TEvent extends { type: string }>(options: EventBusOptions<TEvent> = {}) {
+  const listeners = new Map<TEvent['type'], ListenerEntry<TEvent>[]>()
+  const reportError = options.onError ?? ((error: unknown, event: TEvent) => console.error(`Listener of "${event.type}" failed:`, error))
+
+  function on<K extends TEvent['type']>(type: K, listener: EventListener<EventOf<TEvent, K>>, listenerOptions: EventListenerOptions = {}) {
+    if (listenerOptions.signal?.aborted)
+      return () => {}
+
+    const entry: ListenerEntry<TEvent> = {
+      listener: listener as EventListener<TEvent>,
+      priority: listenerOptions.priority ?? 0,
+      once: listenerOptions.once ?? false,
+      off: () => {
+        const entries = listeners.get(type)
+        if (entries)
+          listeners.set(type, entries.filter(item => item !== entry))
+        listenerOptions.signal?.removeEventListener('abort', entry.off)
+      },
+    }
+
+    // Kept sorted by priority, a new entry goes after the ones of the same priority
+    const entries = [...listeners.get(type) ?? []]
+    const index = entries.findIndex(item => item.priority < entry.priority)
+    entries.splice(index === -1 ? entries.length : index, 0, entry)
+    listeners.set(type, entries)
+
+    listenerOptions.signal?.addEventListener('abort', entry.off, { once: true })
+    return entry.off
+  }
+
+  function once<K extends TEvent['type']>(type: K, listener: EventListener<EventOf<TEvent, K>>, listenerOptions: Omit<EventListenerOptions, 'once'> = {}) {
+    return on(type, listener, { ...listenerOptions, once: true })
+  }
+
+  async function call(entry: ListenerEntry<TEvent>, event: TEvent, errors: unknown[]) {
+    try {
+      await entry.listener(event)
+    }
+    catch (error) {
+      errors.push(error)
+      reportError(error, event)
+    }
+  }
+
+  /**
+   * Calls the listeners of the event's type and resolves with the errors they threw once all of them are done.
+   */
+  async function emit(event: TEvent, emitOptions: EmitOptions = {}) {
+    // Listeners added or removed while dispatching only take effect on the next event
+    const entries = listeners.get(event.type as TEvent['type']) ?? []
+    for (const entry of entries) {
+      if (entry.once)
+        entry.off()
+    }
+
+    const errors: unknown[] = []
+    if ((emitOptions.dispatch ?? options.dispatch ?? 'serial') === 'parallel') {
+      await Promise.all(entries.map(entry => call(entry, event, errors)))
+    }
+    else {
+      for (const entry of entries)
+        await call(entry, event, errors)
+    }
+
+    return errors
+  }
+
+  function listenerCount(type: TEvent['type']) {
+    return listeners.get(type)?.length ?? 0
+  }
+
+  function clear(type?: TEvent['type']) {
+    for (const [key, entries] of listeners) {
+      if (type === undefined || key === type)
+        entries.forEach(entry => entry.off())
+    }
+  }
+
+  return {
+    on,
+    once,
+    emit,
+    listenerCount,
+    clear,
+  }
+}
+
+export type EventBus<TEvent extends { type: string }> = ReturnType<typeof createEventBus<TEvent>>